@@ -19,6 +19,15 @@ export default defineSchema({
     timestamp: v.number(),
     count: v.number(),
     description: v.optional(v.string()),
+    // Detection provenance
+    methods: v.optional(v.record(v.string(), v.number())),
+    firstSourceUrl: v.optional(v.string()),
+    lastSourceUrl: v.optional(v.string()),
+    // "Sign in with ..." identity provider
+    provider: v.optional(v.object({ id: v.string(), issuer: v.string(), subject: v.optional(v.string()) })),
+    // Account creation date and when other account events were last seen
+    createdAt: v.optional(v.number()),
+    accountEvents: v.optional(v.record(v.string(), v.number())),
     // For conflict resolution
     localTimestamp: v.optional(v.number()),
     syncedAt: v.number(),
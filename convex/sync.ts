@@ -8,6 +8,12 @@ interface EmailMapping {
   timestamp: number;
   count: number;
   description?: string;
+  methods?: Record<string, number>;
+  firstSourceUrl?: string;
+  lastSourceUrl?: string;
+  provider?: { id: string; issuer: string; subject?: string };
+  createdAt?: number;
+  accountEvents?: Record<string, number>;
 }
 
 interface DomainMappings {
@@ -37,6 +43,12 @@ export const getUserMappings = query({
         timestamp: mapping.timestamp,
         count: mapping.count,
         description: mapping.description,
+        methods: mapping.methods,
+        firstSourceUrl: mapping.firstSourceUrl,
+        lastSourceUrl: mapping.lastSourceUrl,
+        provider: mapping.provider,
+        createdAt: mapping.createdAt,
+        accountEvents: mapping.accountEvents,
       });
     });
 
@@ -74,6 +86,12 @@ export const updateUserMappings = mutation({
           timestamp: email.timestamp,
           count: email.count,
           description: email.description,
+          methods: email.methods,
+          firstSourceUrl: email.firstSourceUrl,
+          lastSourceUrl: email.lastSourceUrl,
+          provider: email.provider,
+          createdAt: email.createdAt,
+          accountEvents: email.accountEvents,
           syncedAt: Date.now(),
         });
       }
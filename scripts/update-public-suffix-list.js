@@ -0,0 +1,88 @@
+// Regenerates src/utils/publicSuffixList.json from the Public Suffix List and
+// checks the new snapshot by running tests/fixtures/public-suffix-corpus.json
+// through getRootDomain in src/utils/domain.ts (tests/publicSuffix.test.ts).
+// The previous snapshot is put back if the corpus fails.
+//
+// Usage:
+//   npm run update-psl                      (downloads from publicsuffix.org)
+//   npm run update-psl -- path/to/list.dat  (uses a local copy)
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+const { domainToASCII } = require('url');
+
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT_PATH = path.join(__dirname, '..', 'src', 'utils', 'publicSuffixList.json');
+const ROOT_PATH = path.join(__dirname, '..');
+const CORPUS_TEST = 'tests/publicSuffix.test.ts';
+
+async function readList(source) {
+  if (!source) {
+    const response = await fetch(LIST_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${LIST_URL}: ${response.status}`);
+    }
+    return { text: await response.text(), version: new Date().toISOString().slice(0, 10) };
+  }
+
+  const stats = fs.statSync(source);
+  return { text: fs.readFileSync(source, 'utf8'), version: stats.mtime.toISOString().slice(0, 10) };
+}
+
+// Convert a rule to the ASCII (punycode) form browsers report in location.hostname
+function toAsciiRule(rule) {
+  const prefix = rule.startsWith('!') ? '!' : rule.startsWith('*.') ? '*.' : '';
+  const name = rule.slice(prefix.length);
+  const ascii = domainToASCII(name);
+  if (!ascii) {
+    throw new Error(`Cannot convert rule to ASCII: ${rule}`);
+  }
+  return prefix + ascii;
+}
+
+function parseList(text) {
+  const sections = { icann: [], private: [] };
+  let section = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.includes('===BEGIN ICANN DOMAINS===')) section = 'icann';
+    else if (line.includes('===BEGIN PRIVATE DOMAINS===')) section = 'private';
+    else if (line.includes('===END')) section = null;
+
+    if (!section || !line || line.startsWith('//')) continue;
+    sections[section].push(toAsciiRule(line.split(/\s/)[0]));
+  }
+
+  if (sections.icann.length === 0 || sections.private.length === 0) {
+    throw new Error('List is missing its ICANN or private section');
+  }
+  return sections;
+}
+
+// Run the hostname corpus against the shipped domain code and the snapshot on disk
+function checkCorpus() {
+  const result = spawnSync('npx', ['--no-install', 'vitest', 'run', CORPUS_TEST], { cwd: ROOT_PATH, stdio: 'inherit' });
+  return result.status === 0;
+}
+
+async function main() {
+  const { text, version } = await readList(process.argv[2]);
+  const sections = parseList(text);
+  const previous = fs.readFileSync(OUTPUT_PATH, 'utf8');
+
+  const snapshot = { version, icann: sections.icann, private: sections.private };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(snapshot).replace(/","/g, '",\n"') + '\n');
+
+  if (!checkCorpus()) {
+    fs.writeFileSync(OUTPUT_PATH, previous);
+    throw new Error('New snapshot does not match the hostname corpus; kept the previous one');
+  }
+  console.log(`Wrote ${sections.icann.length} ICANN and ${sections.private.length} private rules (${version})`);
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+// Account switching: snapshot a site's cookies for the account that just
+// signed in, and swap the browser to another account's snapshot
+
+import { getRootDomain } from '../utils/domain';
+import { MutationResult, getEmailMappingsForSite } from '../utils/storage';
+import { CookieJar, SavedCookie, getCookieJarsForSite, pruneCookieJars, saveCookieJar } from '../utils/cookieJars';
+import { subscribeToDataChanges } from '../utils/changeFeed';
+import { isSessionOpen } from '../utils/sessions';
+import { getVaultStatus } from '../utils/vault';
+
+// Logins are detected as the sign-in request goes out, before the site has
+// set its session cookies, so the snapshot waits this long (Chrome doesn't
+// fire alarms any sooner)
+const CAPTURE_DELAY_MS = 30 * 1000;
+
+// Each site's pending snapshot has an alarm named this prefix plus its root domain
+export const COOKIE_JAR_CAPTURE_ALARM_PREFIX = 'cookie-jar-capture|';
+
+// chrome.storage.session key holding the account each alarm snapshots, so
+// the capture survives the service worker stopping during the wait
+const PENDING_CAPTURES_KEY = 'pendingCookieJarCaptures';
+
+interface PendingCapture {
+  domain: string;
+  email: string;
+  hostname: string;
+}
+
+// Root domain -> pending snapshot (a newer login on the site replaces it)
+type PendingCaptures = Record<string, PendingCapture>;
+
+async function getPendingCaptures(): Promise<PendingCaptures> {
+  const result = await chrome.storage.session.get([PENDING_CAPTURES_KEY]);
+  return result[PENDING_CAPTURES_KEY] || {};
+}
+
+async function setPendingCapture(site: string, capture: PendingCapture | null): Promise<void> {
+  const pending = await getPendingCaptures();
+  if (capture) {
+    pending[site] = capture;
+  } else {
+    delete pending[site];
+  }
+  await chrome.storage.session.set({ [PENDING_CAPTURES_KEY]: pending });
+}
+
+function toSavedCookie(cookie: chrome.cookies.Cookie): SavedCookie {
+  const saved: SavedCookie = {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    hostOnly: cookie.hostOnly,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    sameSite: cookie.sameSite
+  };
+  if (!cookie.session && cookie.expirationDate !== undefined) {
+    saved.expirationDate = cookie.expirationDate;
+  }
+  return saved;
+}
+
+// URL chrome.cookies needs to set or remove a cookie
+function getCookieUrl(cookie: { domain: string; path: string; secure: boolean }): string {
+  return `${cookie.secure ? 'https' : 'http'}://${cookie.domain.replace(/^\./, '')}${cookie.path}`;
+}
+
+/**
+ * Read the cookies of a root domain and its subdomains
+ */
+async function readSiteCookies(site: string): Promise<SavedCookie[]> {
+  const cookies = await chrome.cookies.getAll({ domain: site });
+  return cookies.map(toSavedCookie);
+}
+
+/**
+ * Replace a site's cookies with a snapshot. Returns how many cookies could
+ * not be set.
+ */
+async function restoreSiteCookies(site: string, cookies: SavedCookie[]): Promise<number> {
+  for (const cookie of await chrome.cookies.getAll({ domain: site })) {
+    await chrome.cookies.remove({ url: getCookieUrl(cookie), name: cookie.name });
+  }
+
+  const now = Date.now() / 1000;
+  let failed = 0;
+  for (const cookie of cookies) {
+    if (cookie.expirationDate !== undefined && cookie.expirationDate <= now) continue;
+
+    const details: chrome.cookies.SetDetails = {
+      url: getCookieUrl(cookie),
+      name: cookie.name,
+      value: cookie.value,
+      path: cookie.path,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      sameSite: cookie.sameSite
+    };
+    // Host-only cookies (and __Host- ones) must be set without a domain
+    if (!cookie.hostOnly) details.domain = cookie.domain;
+    if (cookie.expirationDate !== undefined) details.expirationDate = cookie.expirationDate;
+
+    try {
+      if (!(await chrome.cookies.set(details))) failed++;
+    } catch (error) {
+      failed++;
+    }
+  }
+  return failed;
+}
+
+/**
+ * Snapshot a site's cookies for an account (the newest snapshot becomes the
+ * site's active jar)
+ */
+export async function captureCookieJar(domain: string, email: string, hostname: string): Promise<boolean> {
+  const site = getRootDomain(hostname);
+  const cookies = await readSiteCookies(site);
+  if (cookies.length === 0) return false;
+
+  const saved = await saveCookieJar({ domain, email, site, timestamp: Date.now(), cookies });
+  if (saved) {
+    console.log('Cookie jar saved:', { domain, email, site, cookies: cookies.length });
+  }
+  return saved;
+}
+
+/**
+ * Snapshot the site's cookies for an account once the sign-in has settled
+ */
+export async function scheduleCookieJarCapture(domain: string, email: string, hostname: string): Promise<void> {
+  const site = getRootDomain(hostname);
+  await setPendingCapture(site, { domain, email, hostname });
+  // Creating the alarm again replaces the site's earlier one
+  chrome.alarms.create(COOKIE_JAR_CAPTURE_ALARM_PREFIX + site, { when: Date.now() + CAPTURE_DELAY_MS });
+}
+
+/**
+ * Take the snapshot a capture alarm was scheduled for
+ */
+export async function runCookieJarCapture(alarmName: string): Promise<void> {
+  const site = alarmName.slice(COOKIE_JAR_CAPTURE_ALARM_PREFIX.length);
+  const pending = (await getPendingCaptures())[site];
+  if (!pending) return;
+
+  await setPendingCapture(site, null);
+  try {
+    await captureCookieJar(pending.domain, pending.email, pending.hostname);
+  } catch (error) {
+    console.error('Error capturing cookie jar:', error);
+  }
+}
+
+/**
+ * Drop a site's pending snapshot
+ */
+async function cancelCookieJarCapture(site: string): Promise<void> {
+  await chrome.alarms.clear(COOKIE_JAR_CAPTURE_ALARM_PREFIX + site);
+  await setPendingCapture(site, null);
+}
+
+/**
+ * Re-snapshot the account whose cookies the browser holds before they are
+ * replaced, unless it has signed out since (its jar would be signed-out cookies)
+ */
+async function refreshActiveJar(active: CookieJar, hostname: string): Promise<void> {
+  const mapping = (await getEmailMappingsForSite(hostname)).find(entry => entry.email === active.email);
+  if (!mapping || !isSessionOpen(mapping)) return;
+
+  const cookies = await readSiteCookies(active.site);
+  if (cookies.length > 0) {
+    await saveCookieJar({ ...active, cookies });
+  }
+}
+
+async function reloadSiteTabs(site: string): Promise<void> {
+  const tabs = await chrome.tabs.query({ url: [`*://${site}/*`, `*://*.${site}/*`] });
+  for (const tab of tabs) {
+    if (tab.id !== undefined) {
+      await chrome.tabs.reload(tab.id);
+    }
+  }
+}
+
+/**
+ * Swap the browser to an account's saved cookies for a site and reload the
+ * site's tabs
+ */
+export async function switchAccount(website: string, email: string): Promise<MutationResult> {
+  try {
+    const vault = await getVaultStatus();
+    if (!vault.unlocked) {
+      return { success: false, error: 'Vault is locked' };
+    }
+
+    const jars = await getCookieJarsForSite(website);
+    const target = jars.find(jar => jar.email === email);
+    if (!target) {
+      return { success: false, error: 'No saved sign-in for this account' };
+    }
+
+    // A snapshot still pending would capture the cookies being switched in
+    await cancelCookieJarCapture(target.site);
+
+    const [active] = jars.filter(jar => jar.site === target.site);
+    if (active && active.email !== email) {
+      await refreshActiveJar(active, website);
+    }
+
+    const failed = await restoreSiteCookies(target.site, target.cookies);
+    if (failed > 0) {
+      console.log('Some cookies could not be restored:', { site: target.site, failed });
+    }
+
+    const timestamp = Math.max(Date.now(), (active?.timestamp ?? 0) + 1);
+    await saveCookieJar({ ...target, timestamp });
+    await reloadSiteTabs(target.site);
+
+    console.log('Switched account:', { site: target.site, email });
+    return { success: true };
+  } catch (error) {
+    console.error('Error switching account:', error);
+    return { success: false, error: 'Failed to switch account' };
+  }
+}
+
+/**
+ * Delete the jars of accounts that are removed, whichever way they go
+ */
+export function initializeAccountSwitcher(): void {
+  subscribeToDataChanges(() => {
+    pruneCookieJars();
+  });
+
+  pruneCookieJars();
+}
@@ -0,0 +1,171 @@
+// Toolbar badge: how many known accounts the current tab's site has, or that
+// tracking is paused or turned off there
+
+import { getRootDomain } from '../utils/domain';
+import { getEmailMappingsForSite } from '../utils/storage';
+import { subscribeToDataChanges } from '../utils/changeFeed';
+import {
+  TrackingSettings,
+  formatPauseRemaining,
+  getPauseStatus,
+  getSitePolicy,
+  getTrackingSettings,
+  subscribeToTrackingSettings
+} from '../utils/trackingSettings';
+
+// Alarm that ticks the countdown while a timed pause runs
+export const ACTION_BADGE_ALARM = 'action-badge-refresh';
+
+const ACTION_TITLE = 'My Email Tracker';
+
+const PAUSED_BADGE_COLOR = '#f59e0b';
+const DISABLED_BADGE_COLOR = '#9ca3af';
+const ACCOUNTS_BADGE_COLOR = '#007cba';
+
+// Accounts named in the tooltip before it says "+N more"
+const MAX_TOOLTIP_ACCOUNTS = 3;
+
+interface BadgeState {
+  text: string;
+  color?: string;
+  title: string;
+}
+
+function getHttpHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// 'alice@example.com' -> 'alice@…'
+function abbreviateEmail(email: string): string {
+  const at = email.indexOf('@');
+  return at > 0 ? `${email.slice(0, at)}@…` : email;
+}
+
+/**
+ * The badge while tracking is paused everywhere, or null if it isn't
+ */
+function getPauseBadge(settings: TrackingSettings): BadgeState | null {
+  const status = getPauseStatus(settings);
+  if (!status.isPaused) return null;
+
+  const remaining = formatPauseRemaining(status);
+  return {
+    text: remaining || 'II',
+    color: PAUSED_BADGE_COLOR,
+    title: remaining
+      ? `${ACTION_TITLE}: paused (${remaining} left)`
+      : status.pauseUntilRestart
+        ? `${ACTION_TITLE}: paused until the browser restarts`
+        : `${ACTION_TITLE}: paused`
+  };
+}
+
+/**
+ * The badge for a site: turned off by a site rule, or its known accounts
+ */
+async function getSiteBadge(hostname: string, settings: TrackingSettings): Promise<BadgeState> {
+  const domain = getRootDomain(hostname);
+
+  if (!getSitePolicy(hostname, settings.siteRules).tracking) {
+    return { text: 'off', color: DISABLED_BADGE_COLOR, title: `${ACTION_TITLE}: tracking is off on ${hostname}` };
+  }
+
+  const accounts = await getEmailMappingsForSite(hostname);
+  if (accounts.length === 0) {
+    return { text: '', title: `${ACTION_TITLE}: no known accounts on ${domain}` };
+  }
+
+  const names = accounts.slice(0, MAX_TOOLTIP_ACCOUNTS).map(account => abbreviateEmail(account.email));
+  const more = accounts.length - names.length;
+  const noun = accounts.length === 1 ? 'account' : 'accounts';
+  return {
+    text: accounts.length > 99 ? '99+' : accounts.length.toString(),
+    color: ACCOUNTS_BADGE_COLOR,
+    title: `${accounts.length} ${noun} on ${domain}: ${names.join(', ')}${more > 0 ? ` +${more} more` : ''}`
+  };
+}
+
+async function applyBadge(state: BadgeState, tabId?: number): Promise<void> {
+  const target = tabId !== undefined ? { tabId } : {};
+  if (state.color) {
+    await chrome.action.setBadgeBackgroundColor({ ...target, color: state.color });
+  }
+  await chrome.action.setBadgeText({ ...target, text: state.text });
+  await chrome.action.setTitle({ ...target, title: state.title });
+}
+
+/**
+ * Redraw the badge for one tab from its URL
+ */
+export async function refreshTabBadge(tabId: number, url: string | undefined): Promise<void> {
+  try {
+    const settings = await getTrackingSettings();
+    const hostname = getHttpHostname(url);
+
+    const state = getPauseBadge(settings)
+      || (hostname ? await getSiteBadge(hostname, settings) : { text: '', title: ACTION_TITLE });
+    await applyBadge(state, tabId);
+  } catch (error) {
+    // The tab may have closed meanwhile
+    console.log('Could not update badge for tab:', tabId, error);
+  }
+}
+
+/**
+ * Redraw the default badge and the badge of every window's active tab
+ */
+export async function refreshActionBadge(): Promise<void> {
+  try {
+    const settings = await getTrackingSettings();
+    const pauseBadge = getPauseBadge(settings);
+    await applyBadge(pauseBadge || { text: '', title: ACTION_TITLE });
+
+    // Tick once a minute only while there is a countdown to show
+    if (pauseBadge && getPauseStatus(settings).pausedUntil !== undefined) {
+      chrome.alarms.create(ACTION_BADGE_ALARM, { periodInMinutes: 1 });
+    } else {
+      await chrome.alarms.clear(ACTION_BADGE_ALARM);
+    }
+
+    const tabs = await chrome.tabs.query({ active: true });
+    for (const tab of tabs) {
+      if (tab.id !== undefined) {
+        await refreshTabBadge(tab.id, tab.url);
+      }
+    }
+  } catch (error) {
+    console.error('Error updating action badge:', error);
+  }
+}
+
+/**
+ * Keep the badge current as tabs switch and navigate, logins are recorded,
+ * and tracking is paused or site rules change
+ */
+export function initializeActionBadge(): void {
+  chrome.tabs.onActivated.addListener(({ tabId }) => {
+    chrome.tabs.get(tabId)
+      .then(tab => refreshTabBadge(tabId, tab.url))
+      .catch(() => undefined);
+  });
+
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    if (tab.active && (changeInfo.url || changeInfo.status === 'complete')) {
+      refreshTabBadge(tabId, tab.url);
+    }
+  });
+
+  subscribeToDataChanges(() => {
+    refreshActionBadge();
+  });
+
+  subscribeToTrackingSettings(() => {
+    refreshActionBadge();
+  });
+}
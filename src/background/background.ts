@@ -1,49 +1,171 @@
 // Background script for Email Tracker Extension
 // Converted from background.js to TypeScript
 
-// Storage key for login history
-const STORAGE_KEY = 'emailMappings';
-
-// Domain utilities for smart domain grouping
-function getRootDomain(domain: string): string {
-  if (!domain) return domain;
-
-  // Remove www if present
-  let cleanDomain = domain.toLowerCase().replace(/^www\./, '');
+import { LoginTabContext } from '../types/index';
+import { MessageHandlers, createMessageRouter } from '../utils/messaging';
+import {
+  addEmailMapping,
+  clearAllMappings,
+  clearDomainMappings,
+  deleteEmailMapping,
+  disableVault,
+  enableVault,
+  enforceRetention,
+  getEmailMappings,
+  getEmailMappingsForSite,
+  recordLogin,
+  renameDomain,
+  replayPendingLogins,
+  restoreFromTrash,
+  setEmailPinned,
+  updateEmailMapping
+} from '../utils/storage';
+import { NewLoginEvent, getLoginEvents } from '../utils/loginEvents';
+import { classifyAccountUrl } from '../utils/accountEvents';
+import { getRootDomain } from '../utils/domain';
+import { initializeTabAttribution, resolveOriginatingSite } from './tabAttribution';
+import { CompletedOAuthFlow, initializeOAuthFlowTracking, isOAuthFlowRequest, noteOAuthFlowAccount } from './oauthFlows';
+import { LoginRequestCapture, initializeLoginRequestCapture } from './loginRequests';
+import { DEFAULT_IDENTIFIER_FIELDS, getIdentifierFields, saveIdentifierFields } from '../utils/identifierFields';
+import {
+  TRACKING_RESUME_ALARM,
+  getPauseStatus,
+  getSitePolicy,
+  getTrackingSettings,
+  isPauseActive,
+  isTrackingAllowed,
+  isTrackingPaused,
+  pauseTracking,
+  removeSiteRule,
+  resumeTracking,
+  saveSiteRule
+} from '../utils/trackingSettings';
+import { ACTION_BADGE_ALARM, initializeActionBadge, refreshActionBadge } from './actionBadge';
+import { initializeContextMenus } from './contextMenus';
+import { initializeLoginNotifications, notifyLoginDetected } from './loginNotifications';
+import { endSiteSessions, initializeSessionTracking } from './sessionTracking';
+import {
+  COOKIE_JAR_CAPTURE_ALARM_PREFIX,
+  initializeAccountSwitcher,
+  runCookieJarCapture,
+  scheduleCookieJarCapture,
+  switchAccount
+} from './accountSwitcher';
+import { getCookieJars, getCookieJarsForSite, summarizeCookieJars } from '../utils/cookieJars';
+import { getNotificationStyle, saveNotificationStyle } from '../utils/notificationSettings';
+import { DEFAULT_DOMAIN_GROUPS, getCanonicalDomain, getDomainGroupSettings, saveDomainGroupSettings } from '../utils/domainGroups';
+import { runStorageMigrations } from '../utils/migrations';
+import { getDatabase } from '../utils/database';
+import {
+  clearEvictionLog,
+  getEvictionLog,
+  getRetentionPolicy,
+  saveRetentionPolicy
+} from '../utils/retention';
+import { emptyTrash, getTrashEntries, purgeTrash } from '../utils/trash';
+import {
+  VAULT_LOCK_ALARM,
+  changeVaultPassphrase,
+  exportRecoveryKey,
+  getVaultStatus,
+  lockVault,
+  setAutoLockMinutes,
+  touchVault,
+  unlockVault
+} from '../utils/vault';
+
+// Track popups and redirect chains so OAuth captures are credited to the right site
+initializeTabAttribution();
+
+// Follow "Sign in with ..." flows so logins are stored with their identity provider
+initializeOAuthFlowTracking(recordOAuthFlowLogin);
+
+// Read login identifiers from fetch/XHR request bodies (single-page app logins)
+initializeLoginRequestCapture(recordLoginRequest);
+
+// Show the current tab's known accounts on the toolbar icon
+initializeActionBadge();
+
+// Fill, copy and record accounts from the right-click menu
+initializeContextMenus();
+
+// Act on the buttons of new-account and captured-email notifications
+initializeLoginNotifications();
+
+// End account sessions on logout requests and cleared session cookies
+initializeSessionTracking();
+
+// Snapshot each account's cookies so multi-account sites can be switched
+initializeAccountSwitcher();
+
+// Alarm name for the daily retention sweep
+const RETENTION_ALARM = 'retention-sweep';
+
+// Initialize storage on install and upgrade stored data on update (never wipes existing data)
+chrome.runtime.onInstalled.addListener(async (details) => {
+  console.log('Email Tracker Extension installed:', details.reason);
+
+  if (details.reason === 'install' || details.reason === 'update') {
+    try {
+      await runStorageMigrations();
+      // Open the database now so the chrome.storage blob is imported right away
+      await getDatabase();
+    } catch (error) {
+      console.error('Error migrating storage:', error);
+    }
+  }
+});
 
-  // Split by dots
-  const parts = cleanDomain.split('.');
+// Periodically expire entries that exceed the retention policy
+chrome.alarms.create(RETENTION_ALARM, { periodInMinutes: 24 * 60 });
 
-  if (parts.length <= 2) {
-    return cleanDomain; // Already a root domain
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === RETENTION_ALARM) {
+    await enforceRetention();
+    await purgeTrash();
+  }
+  if (alarm.name === VAULT_LOCK_ALARM) {
+    await lockVault();
+  }
+  if (alarm.name === TRACKING_RESUME_ALARM) {
+    await resumeTracking();
+    console.log('Timed pause ended, tracking resumed');
+  }
+  if (alarm.name === ACTION_BADGE_ALARM) {
+    await refreshActionBadge();
   }
+  if (alarm.name.startsWith(COOKIE_JAR_CAPTURE_ALARM_PREFIX)) {
+    await runCookieJarCapture(alarm.name);
+  }
+});
 
-  // Check if it's a known separate TLD (like co.uk)
-  const separateTlds = new Set([
-    'co.uk', 'co.jp', 'co.kr', 'com.au', 'co.nz', 'co.za', 'com.br', 'com.mx',
-    'co.in', 'co.ca', 'com.sg', 'com.hk', 'co.th', 'com.tw', 'com.tr', 'com.ar'
-  ]);
+chrome.runtime.onStartup.addListener(async () => {
+  await enforceRetention();
+  await purgeTrash();
 
-  const potentialTld = parts.slice(-2).join('.');
-  if (separateTlds.has(potentialTld)) {
-    return parts.slice(-3).join('.');
+  // "Until browser restart" pauses end here
+  const settings = await getTrackingSettings();
+  if (settings.isPaused && settings.pauseUntilRestart) {
+    await resumeTracking();
   }
+});
 
-  // For regular TLDs, return the last two parts
-  return parts.slice(-2).join('.');
-}
+restorePauseTimer();
 
-// Initialize storage
-chrome.runtime.onInstalled.addListener(() => {
-  console.log('Email Tracker Extension installed');
-  chrome.storage.local.set({
-    emailMappings: {},
-    trackingSettings: {
-      isPaused: false,
-      disabledSites: []
+// Resume a timed pause that ended while the service worker was stopped, or
+// re-arm its alarm if the alarm was lost
+async function restorePauseTimer() {
+  const settings = await getTrackingSettings();
+
+  if (settings.isPaused && settings.pausedUntil !== undefined) {
+    if (!isPauseActive(settings)) {
+      await resumeTracking();
+    } else if (!(await chrome.alarms.get(TRACKING_RESUME_ALARM))) {
+      chrome.alarms.create(TRACKING_RESUME_ALARM, { when: settings.pausedUntil });
     }
-  });
-});
+  }
+  await refreshActionBadge();
+}
 
 // Monitor completed web requests for OAuth redirects (captures emails during login process)
 chrome.webRequest.onCompleted.addListener(
@@ -64,15 +186,16 @@ chrome.webRequest.onCompleted.addListener(
     if (isOAuthUrl && details.statusCode === 200) {
       console.log('OAuth/Login Request detected:', details.url);
 
-      // Check if tracking is paused
-      const result = await chrome.storage.local.get(['trackingSettings']);
-      const settings = result.trackingSettings || { isPaused: false, disabledSites: [] };
-
-      if (settings.isPaused) {
+      if (await isTrackingPaused()) {
         console.log('Tracking is paused, skipping OAuth analysis');
         return;
       }
 
+      // Logins through a tracked provider flow are recorded when the flow completes
+      if (isOAuthFlowRequest(details.requestId)) {
+        return;
+      }
+
       try {
         // Extract email from OAuth URL parameters (more reliable than response body)
         await analyzeOAuthUrlForEmail(details);
@@ -87,8 +210,55 @@ chrome.webRequest.onCompleted.addListener(
   }
 );
 
+// Record a completed "Sign in with ..." flow (or a decoded id_token/SAML response) against the site it returned to
+async function recordOAuthFlowLogin(flow: CompletedOAuthFlow) {
+  if (!flow.email) {
+    console.log('OAuth flow completed without a known account:', { provider: flow.provider?.id, site: flow.site.hostname });
+    return;
+  }
+  if (!(await isTrackingAllowed(flow.site.hostname, flow.method))) {
+    console.log('Tracking is paused or disabled for this site, skipping OAuth flow:', flow.site.hostname);
+    return;
+  }
+
+  const tab = flow.site.tabId !== undefined ? await chrome.tabs.get(flow.site.tabId).catch(() => undefined) : undefined;
+  const stored = await recordDetectedLogin({
+    domain: getRootDomain(flow.site.hostname),
+    email: flow.email,
+    url: flow.url,
+    method: flow.method,
+    tab: getTabContext(tab),
+    ...(flow.provider ? { provider: flow.provider } : {})
+  });
+
+  if (stored) {
+    console.log('OAuth flow login stored:', { site: flow.site.hostname, provider: flow.provider?.id, method: flow.method, email: flow.email });
+  }
+}
+
+// Record the identifier sent in a fetch/XHR login request against the page that sent it
+async function recordLoginRequest(capture: LoginRequestCapture) {
+  if (!(await isTrackingAllowed(capture.hostname, 'request_body'))) {
+    console.log('Tracking is paused or disabled for this site, skipping login request:', capture.hostname);
+    return;
+  }
+
+  const tab = await chrome.tabs.get(capture.tabId).catch(() => undefined);
+  const stored = await recordDetectedLogin({
+    domain: getRootDomain(capture.hostname),
+    email: capture.email,
+    url: capture.url,
+    method: 'request_body',
+    tab: getTabContext(tab)
+  });
+
+  if (stored) {
+    console.log('Login request identifier stored:', { site: capture.hostname, email: capture.email });
+  }
+}
+
 // Analyze OAuth URLs for email parameters (captures emails during login process)
-async function analyzeOAuthUrlForEmail(details: any) {
+async function analyzeOAuthUrlForEmail(details: chrome.webRequest.WebResponseCacheDetails) {
   try {
     // Extract email from URL parameters in OAuth redirects
     const url = new URL(details.url);
@@ -139,18 +309,19 @@ async function analyzeOAuthUrlForEmail(details: any) {
     if (capturedEmail) {
       console.log('Email found in OAuth URL:', capturedEmail, 'from URL:', details.url);
 
-      // Get the current tab to determine the domain
-      const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
-      const currentTab = tabs[0];
+      // Credit the site that started this OAuth flow, not whichever tab is active
+      const origin = await resolveOriginatingSite(details);
 
-      if (currentTab && currentTab.url) {
-        const originalDomain = new URL(currentTab.url).hostname;
-        const rootDomain = getRootDomain(originalDomain);
+      if (origin && !(await isTrackingAllowed(origin.hostname, 'oauth_redirect'))) {
+        console.log('Tracking is disabled for this site, skipping OAuth capture:', origin.hostname);
+      } else if (origin) {
+        const rootDomain = getRootDomain(origin.hostname);
+        const tab = origin.tabId !== undefined ? await chrome.tabs.get(origin.tabId).catch(() => undefined) : undefined;
 
-        console.log('OAuth Domain mapping:', { original: originalDomain, root: rootDomain });
+        console.log('OAuth Domain mapping:', { original: origin.hostname, root: rootDomain, tabId: origin.tabId });
 
         // Store the email mapping using root domain
-        await storeEmailMapping(rootDomain, capturedEmail, details.url);
+        await storeEmailMapping(rootDomain, capturedEmail, details.url, getTabContext(tab));
       }
     }
   } catch (error) {
@@ -508,280 +679,233 @@ function isValidEmail(email: string): boolean {
   return !isInvalid && email.includes('@') && email.length > 5;
 }
 
-// Store email mapping for domain (only keep last used email per domain)
-async function storeEmailMapping(domain: string, email: string, apiUrl: string) {
-  try {
-    const mappings = await chrome.storage.local.get(['emailMappings']);
-    const storage = mappings.emailMappings || {};
+// Store email mapping for domain (recorded as a login event)
+async function storeEmailMapping(domain: string, email: string, apiUrl: string, tab?: LoginTabContext) {
+  const stored = await recordDetectedLogin({
+    domain,
+    email,
+    url: apiUrl,
+    method: 'oauth_redirect',
+    ...(tab ? { tab } : {})
+  });
 
-    if (!storage[domain]) {
-      storage[domain] = [];
-    }
+  if (stored) {
+    console.log('Email mapping stored:', { domain, email });
+  }
+}
 
-    const existingEntry = storage[domain].find((entry: any) => entry.email === email);
+// Check whether an email is not yet known on a site (or its equivalent domains).
+// Unknown while the vault is locked, so a locked login is never announced as new.
+async function isNewAccount(hostname: string, email: string): Promise<boolean> {
+  const vault = await getVaultStatus();
+  if (!vault.unlocked) return false;
 
-    if (!existingEntry) {
-      // Add new entry (track every login, don't replace)
-      storage[domain].unshift({
-        email: email,
-        apiUrl: apiUrl,
-        timestamp: Date.now(),
-        count: 1
-      });
+  const entries = await getEmailMappingsForSite(hostname);
+  return !entries.some(entry => entry.email === email);
+}
 
-      // Keep only last 10 emails per domain to avoid storage bloat
-      if (storage[domain].length > 10) {
-        storage[domain] = storage[domain].slice(0, 10);
-      }
+// Record a detected login and announce it (when system notifications are chosen).
+// Detections the page didn't classify are classified by their URL. Sign-ins
+// outside incognito also snapshot the site's cookies for account switching.
+async function recordDetectedLogin(input: NewLoginEvent): Promise<boolean> {
+  const type = input.type || classifyAccountUrl(input.url) || 'login';
+  const isNew = await isNewAccount(input.domain, input.email);
+  const stored = await recordLogin({ ...input, type });
 
-      await chrome.storage.local.set({ emailMappings: storage });
-      console.log('Email mapping stored:', { domain, email });
-    } else {
-      existingEntry.timestamp = Date.now();
-      existingEntry.count += 1;
+  if (stored) {
+    const domain = await getCanonicalDomain(input.domain);
+    await notifyLoginDetected({ domain, hostname: input.domain, email: input.email, type, isNew });
+
+    if ((type === 'login' || type === 'signup') && !input.tab?.incognito) {
+      await scheduleCookieJarCapture(domain, input.email, input.domain);
     }
-  } catch (error) {
-    console.error('Error storing email mapping:', error);
   }
+  return stored;
 }
 
-// Listen for messages from popup and content scripts
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('Background received message:', message.type, message.data);
-  if (message.type === 'GET_EMAIL_MAPPINGS') {
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      sendResponse({ mappings: result.emailMappings || {} });
-    });
-    return true; // Keep message channel open
-  }
+// Describe the tab a login was detected in
+function getTabContext(tab: chrome.tabs.Tab | undefined, frameId?: number): LoginTabContext {
+  const context: LoginTabContext = {};
+  if (!tab) return context;
+
+  if (tab.id !== undefined) context.tabId = tab.id;
+  if (tab.windowId !== undefined) context.windowId = tab.windowId;
+  if (frameId !== undefined) context.frameId = frameId;
+  if (tab.title) context.title = tab.title;
+  context.incognito = tab.incognito;
+
+  return context;
+}
+
+// Handlers for every message from the popup and content scripts
+export const messageHandlers: MessageHandlers = {
+  GET_EMAIL_MAPPINGS: async () => {
+    // Nothing is readable (or shown in the banner) while the vault is locked
+    const vault = await getVaultStatus();
+    if (!vault.unlocked) {
+      return { mappings: {}, locked: true };
+    }
+    return { mappings: await getEmailMappings() };
+  },
+
+  CLEAR_MAPPINGS: () => clearAllMappings(),
 
-  if (message.type === 'CLEAR_MAPPINGS') {
-    chrome.storage.local.set({ emailMappings: {} }, () => {
-      sendResponse({ success: true });
+  LOGIN_DETECTED: async ({ email, website, timestamp, url, method, type }, sender) => {
+    if (!(await isTrackingAllowed(website, method))) {
+      return { success: false, error: 'Tracking is paused or disabled for this site' };
+    }
+
+    // An account picked on a provider's page belongs to the flow running in that tab too
+    if (sender.tab?.id !== undefined) {
+      noteOAuthFlowAccount(sender.tab.id, website, email);
+    }
+
+    const stored = await recordDetectedLogin({
+      domain: website,
+      email,
+      url,
+      timestamp,
+      tab: getTabContext(sender.tab, sender.frameId),
+      ...(method ? { method } : {}),
+      ...(type ? { type } : {})
     });
-    return true;
-  }
 
-  if (message.type === 'LOGIN_DETECTED') {
-    console.log('Processing LOGIN_DETECTED message:', message.data);
-    const { email, website, timestamp, url, method } = message.data;
+    if (!stored) {
+      return { success: false, error: 'Failed to store login' };
+    }
+    console.log('Login detected and stored:', { email, website, method, type });
+    return { success: true };
+  },
 
-    // Get current mappings
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  LOGOUT_DETECTED: async ({ website, url }) => ({ ended: await endSiteSessions(website, url, 'signed_out_page') }),
 
-      if (!mappings[website]) {
-        mappings[website] = [];
-      }
+  GET_LOGIN_EVENTS: async (query) => ({ events: await getLoginEvents(query || {}) }),
 
-      // Check if email already exists for this domain
-      const existingEntry = mappings[website].find((entry: any) => entry.email === email);
+  ADD_EMAIL: ({ domain, email }) => addEmailMapping(domain, email),
 
-      if (!existingEntry) {
-        // Add new entry (track every login, don't replace)
-        mappings[website].unshift({
-          email: email,
-          apiUrl: url,
-          timestamp: timestamp,
-          count: 1
-        });
+  DELETE_EMAIL: ({ domain, email }) => deleteEmailMapping(domain, email),
 
-        // Keep only last 10 emails per domain to avoid storage bloat
-        if (mappings[website].length > 10) {
-          mappings[website] = mappings[website].slice(0, 10);
-        }
+  DELETE_DOMAIN: ({ domain }) => clearDomainMappings(domain),
 
-        // Save updated mappings
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          if (chrome.runtime.lastError) {
-            console.error('Error saving email mappings:', chrome.runtime.lastError);
-            sendResponse({ success: false, error: chrome.runtime.lastError.message });
-          } else {
-            console.log('Login detected and stored:', { email, website, method });
-            sendResponse({ success: true });
-          }
-        });
-      } else {
-        // Update existing entry
-        existingEntry.timestamp = timestamp;
-        existingEntry.count += 1;
-
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          if (chrome.runtime.lastError) {
-            console.error('Error updating email count:', chrome.runtime.lastError);
-            sendResponse({ success: false, error: chrome.runtime.lastError.message });
-          } else {
-            console.log('Login count updated:', { email, website, newCount: existingEntry.count });
-            sendResponse({ success: true });
-          }
-        });
-      }
-    });
-    return true;
-  }
+  EDIT_DOMAIN: ({ oldDomain, newDomain }) => renameDomain(oldDomain, newDomain),
 
-  // Handle other message types (ADD_EMAIL, DELETE_EMAIL, etc.)
-  if (message.type === 'ADD_EMAIL') {
-    const { domain, email } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  EDIT_EMAIL: ({ domain, oldEmail, newEmail, description }) =>
+    updateEmailMapping(domain, oldEmail, newEmail, description),
 
-      if (!mappings[domain]) {
-        mappings[domain] = [];
-      }
+  GET_SITE_ACCOUNTS: async ({ hostname }) => {
+    const vault = await getVaultStatus();
+    if (!vault.unlocked) {
+      return { emails: [], locked: true };
+    }
+    return { emails: await getEmailMappingsForSite(hostname) };
+  },
 
-      // Check if email already exists
-      const existingEntry = mappings[domain].find((entry: any) => entry.email === email);
+  // Known on any equivalent domain counts as an existing account
+  CHECK_NEW_ACCOUNT: async ({ domain, email }) => ({ isNew: await isNewAccount(domain, email) }),
 
-      if (!existingEntry) {
-        // Add new entry (track every login, don't replace)
-        mappings[domain].unshift({
-          email: email,
-          apiUrl: `manual://${domain}`,
-          timestamp: Date.now(),
-          count: 1
-        });
+  GET_COOKIE_JARS: async (query) => {
+    const vault = await getVaultStatus();
+    if (!vault.unlocked) {
+      return { jars: [], locked: true };
+    }
+    const jars = query?.website ? await getCookieJarsForSite(query.website) : await getCookieJars();
+    return { jars: summarizeCookieJars(jars) };
+  },
 
-        // Keep only last 10 emails per domain to avoid storage bloat
-        if (mappings[domain].length > 10) {
-          mappings[domain] = mappings[domain].slice(0, 10);
-        }
+  SWITCH_ACCOUNT: ({ website, email }) => switchAccount(website, email),
 
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          sendResponse({ success: true });
-        });
-      } else {
-        sendResponse({ success: false, error: 'Email already exists for this domain' });
-      }
-    });
-    return true;
-  }
+  GET_DOMAIN_GROUPS: async () => ({
+    defaults: DEFAULT_DOMAIN_GROUPS,
+    settings: await getDomainGroupSettings()
+  }),
 
-  if (message.type === 'DELETE_EMAIL') {
-    const { domain, email } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  SET_DOMAIN_GROUPS: async (settings) => ({ success: await saveDomainGroupSettings(settings) }),
 
-      if (mappings[domain]) {
-        mappings[domain] = mappings[domain].filter((entry: any) => entry.email !== email);
+  GET_IDENTIFIER_FIELDS: async () => ({
+    fields: await getIdentifierFields(),
+    defaults: DEFAULT_IDENTIFIER_FIELDS
+  }),
 
-        if (mappings[domain].length === 0) {
-          delete mappings[domain];
-        }
+  SET_IDENTIFIER_FIELDS: async ({ fields }) => ({ success: await saveIdentifierFields(fields) }),
 
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          sendResponse({ success: true });
-        });
-      } else {
-        sendResponse({ success: false, error: 'Domain not found' });
-      }
-    });
-    return true;
-  }
+  GET_NOTIFICATION_STYLE: async () => ({ style: await getNotificationStyle() }),
 
-  if (message.type === 'DELETE_DOMAIN') {
-    const { domain } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  SET_NOTIFICATION_STYLE: async ({ style }) => ({ success: await saveNotificationStyle(style) }),
 
-      if (mappings[domain]) {
-        delete mappings[domain];
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          sendResponse({ success: true });
-        });
-      } else {
-        sendResponse({ success: false, error: 'Domain not found' });
-      }
-    });
-    return true;
-  }
+  GET_TRACKING_STATUS: async () => getPauseStatus(await getTrackingSettings()),
 
-  if (message.type === 'EDIT_DOMAIN') {
-    const { oldDomain, newDomain } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  TOGGLE_TRACKING: async (options) => {
+    const settings = (await isTrackingPaused())
+      ? await resumeTracking()
+      : await pauseTracking(options?.duration || 'indefinite');
+    return { success: true, ...getPauseStatus(settings) };
+  },
 
-      if (mappings[oldDomain]) {
-        // Create new domain entry with all emails from old domain
-        mappings[newDomain] = mappings[oldDomain];
-        // Remove old domain
-        delete mappings[oldDomain];
+  GET_SITE_POLICY: async ({ hostname }) => {
+    const settings = await getTrackingSettings();
+    return { policy: getSitePolicy(hostname, settings.siteRules), isPaused: isPauseActive(settings) };
+  },
 
-        chrome.storage.local.set({ emailMappings: mappings }, () => {
-          sendResponse({ success: true });
-        });
-      } else {
-        sendResponse({ success: false, error: 'Domain not found' });
-      }
-    });
-    return true;
-  }
+  GET_SITE_RULES: async () => ({ rules: (await getTrackingSettings()).siteRules }),
 
-  if (message.type === 'EDIT_EMAIL') {
-    const { domain, oldEmail, newEmail, description } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  SET_SITE_RULE: async (rule) => ({ success: await saveSiteRule(rule) }),
 
-      if (mappings[domain]) {
-        const emailIndex = mappings[domain].findIndex((entry: any) => entry.email === oldEmail);
+  REMOVE_SITE_RULE: async ({ pattern }) => ({ success: await removeSiteRule(pattern) }),
 
-        if (emailIndex >= 0) {
-          mappings[domain][emailIndex].email = newEmail;
-          mappings[domain][emailIndex].timestamp = Date.now();
-          if (description !== undefined) {
-            mappings[domain][emailIndex].description = description;
-          }
+  PIN_EMAIL: ({ domain, email, pinned }) => setEmailPinned(domain, email, pinned),
 
-          chrome.storage.local.set({ emailMappings: mappings }, () => {
-            sendResponse({ success: true });
-          });
-        } else {
-          sendResponse({ success: false, error: 'Email not found' });
-        }
-      } else {
-        sendResponse({ success: false, error: 'Domain not found' });
-      }
-    });
-    return true;
-  }
+  GET_RETENTION_POLICY: async () => ({ policy: await getRetentionPolicy() }),
 
-  if (message.type === 'CHECK_NEW_ACCOUNT') {
-    const { domain, email } = message.data;
-    chrome.storage.local.get(['emailMappings'], (result) => {
-      const mappings = result.emailMappings || {};
+  SET_RETENTION_POLICY: async (policy) => {
+    const saved = await saveRetentionPolicy(policy);
+    // Apply the new limits right away so the popup can report evictions
+    const evicted = saved ? await enforceRetention() : [];
+    return { success: saved, evicted };
+  },
 
-      if (mappings[domain]) {
-        const existingEntry = mappings[domain].find((entry: any) => entry.email === email);
-        const isNew = !existingEntry;
+  GET_EVICTIONS: async () => ({ evictions: await getEvictionLog() }),
 
-        sendResponse({ isNew });
-      } else {
-        sendResponse({ isNew: true });
-      }
-    });
-    return true;
-  }
+  CLEAR_EVICTIONS: async () => ({ success: await clearEvictionLog() }),
 
-  if (message.type === 'GET_TRACKING_STATUS') {
-    chrome.storage.local.get(['trackingSettings'], (result) => {
-      const settings = result.trackingSettings || { isPaused: false, disabledSites: [] };
-      sendResponse({ isPaused: settings.isPaused });
-    });
-    return true;
-  }
+  UNDO: ({ undoId }) => restoreFromTrash({ batchId: undoId }),
 
-  if (message.type === 'TOGGLE_TRACKING') {
-    chrome.storage.local.get(['trackingSettings'], (result) => {
-      const settings = result.trackingSettings || { isPaused: false, disabledSites: [] };
-      settings.isPaused = !settings.isPaused;
+  GET_TRASH: async () => ({ entries: await getTrashEntries() }),
 
-      chrome.storage.local.set({ trackingSettings: settings }, () => {
-        sendResponse({ success: true, isPaused: settings.isPaused });
-      });
-    });
-    return true;
-  }
+  RESTORE_TRASH: ({ ids }) => restoreFromTrash({ ids }),
+
+  EMPTY_TRASH: async () => ({ success: await emptyTrash() }),
+
+  GET_VAULT_STATUS: async () => {
+    const vault = await getVaultStatus();
+    // Opening the popup counts as activity for the auto-lock timer
+    if (vault.enabled && vault.unlocked) {
+      touchVault(vault.autoLockMinutes);
+    }
+    return { vault };
+  },
+
+  ENABLE_VAULT: ({ passphrase, autoLockMinutes }) => enableVault(passphrase, autoLockMinutes),
+
+  DISABLE_VAULT: ({ passphrase }) => disableVault(passphrase),
 
-  // Default case - no matching message type
-  return false;
-});
\ No newline at end of file
+  UNLOCK_VAULT: async (credentials) => {
+    const result = await unlockVault(credentials);
+    // Record logins that were detected while locked
+    const replayed = result.success ? await replayPendingLogins() : 0;
+    return { ...result, replayed };
+  },
+
+  LOCK_VAULT: async () => {
+    await lockVault();
+    return { success: true };
+  },
+
+  CHANGE_VAULT_PASSPHRASE: ({ newPassphrase, ...credentials }) => changeVaultPassphrase(credentials, newPassphrase),
+
+  EXPORT_RECOVERY_KEY: ({ passphrase }) => exportRecoveryKey(passphrase),
+
+  SET_AUTO_LOCK: async ({ autoLockMinutes }) => ({ success: await setAutoLockMinutes(autoLockMinutes) })
+};
+
+// Listen for messages from popup and content scripts
+chrome.runtime.onMessage.addListener(createMessageRouter(messageHandlers));
@@ -0,0 +1,221 @@
+// Right-click menu: fill or copy a known account for the current site, record
+// a field's value as a login, or stop tracking the site
+
+import { ContentMessage } from '../types/index';
+import { getRootDomain } from '../utils/domain';
+import { getCanonicalDomain } from '../utils/domainGroups';
+import { EmailMapping, addEmailMapping, getEmailMappingsForSite } from '../utils/storage';
+import { subscribeToDataChanges } from '../utils/changeFeed';
+import { saveSiteRule } from '../utils/trackingSettings';
+import { getVaultStatus } from '../utils/vault';
+
+const FILL_MENU_ID = 'fill-account';
+const COPY_MENU_ID = 'copy-account';
+const RECORD_MENU_ID = 'record-field';
+const NEVER_TRACK_MENU_ID = 'never-track-site';
+
+// Fill submenu entries are `${FILL_MENU_ID}|${email}`, so a click needs no
+// state that a service worker restart would lose
+const FILL_ITEM_PREFIX = `${FILL_MENU_ID}|`;
+const EMPTY_FILL_ITEM_ID = `${FILL_MENU_ID}-empty`;
+
+// Accounts listed in the fill submenu
+const MAX_FILL_ACCOUNTS = 8;
+
+// Only web pages have content scripts to fill or copy with
+const WEB_PAGE_PATTERNS = ['http://*/*', 'https://*/*'];
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// Menu rebuilds run one at a time so removeAll/create calls don't interleave
+let menuRebuild: Promise<void> = Promise.resolve();
+
+function getHttpHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Resolves once the item exists (or failed to be created)
+function createMenuItem(properties: chrome.contextMenus.CreateProperties): Promise<void> {
+  return new Promise(resolve => {
+    chrome.contextMenus.create(properties, () => {
+      if (chrome.runtime.lastError) {
+        console.error('Error creating context menu item:', chrome.runtime.lastError.message);
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Known accounts for a site, most recent first (none while the vault is locked)
+ */
+async function getSiteAccounts(hostname: string): Promise<EmailMapping[]> {
+  const vault = await getVaultStatus();
+  return vault.unlocked ? getEmailMappingsForSite(hostname) : [];
+}
+
+/**
+ * Send a message to the content script in one frame of a tab. Resolves to null
+ * if the frame has no content script (e.g. the page predates the extension).
+ */
+async function sendToFrame<R>(tabId: number, frameId: number | undefined, message: ContentMessage): Promise<R | null> {
+  try {
+    const reply = await chrome.tabs.sendMessage(tabId, message, frameId !== undefined ? { frameId } : {});
+    return (reply as R) ?? null;
+  } catch (error) {
+    console.log('Content script unavailable for context menu action:', error);
+    return null;
+  }
+}
+
+async function buildMenus(hostname: string | null): Promise<void> {
+  await chrome.contextMenus.removeAll();
+
+  await createMenuItem({
+    id: FILL_MENU_ID,
+    title: 'Fill email used on this site',
+    contexts: ['editable'],
+    documentUrlPatterns: WEB_PAGE_PATTERNS
+  });
+
+  const accounts = hostname ? (await getSiteAccounts(hostname)).slice(0, MAX_FILL_ACCOUNTS) : [];
+  if (accounts.length === 0) {
+    await createMenuItem({
+      id: EMPTY_FILL_ITEM_ID,
+      parentId: FILL_MENU_ID,
+      title: 'No known accounts for this site',
+      contexts: ['editable'],
+      enabled: false
+    });
+  }
+  for (const account of accounts) {
+    await createMenuItem({
+      id: `${FILL_ITEM_PREFIX}${account.email}`,
+      parentId: FILL_MENU_ID,
+      title: account.description ? `${account.email} (${account.description})` : account.email,
+      contexts: ['editable']
+    });
+  }
+
+  await createMenuItem({
+    id: COPY_MENU_ID,
+    title: 'Copy email for this site',
+    contexts: ['page', 'editable'],
+    documentUrlPatterns: WEB_PAGE_PATTERNS,
+    enabled: accounts.length > 0
+  });
+
+  await createMenuItem({
+    id: RECORD_MENU_ID,
+    title: "Record this field's value as my login here",
+    contexts: ['editable'],
+    documentUrlPatterns: WEB_PAGE_PATTERNS
+  });
+
+  await createMenuItem({
+    id: NEVER_TRACK_MENU_ID,
+    title: 'Never track this site',
+    contexts: ['page', 'editable'],
+    documentUrlPatterns: WEB_PAGE_PATTERNS
+  });
+}
+
+/**
+ * Rebuild the menus for the focused window's active tab
+ */
+export function refreshContextMenus(): Promise<void> {
+  menuRebuild = menuRebuild.then(async () => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+      await buildMenus(getHttpHostname(tab?.url));
+    } catch (error) {
+      console.error('Error building context menus:', error);
+    }
+  });
+  return menuRebuild;
+}
+
+async function copyAccount(tab: chrome.tabs.Tab, hostname: string, frameId: number | undefined): Promise<void> {
+  const [account] = await getSiteAccounts(hostname);
+  if (!account || tab.id === undefined) return;
+
+  await sendToFrame(tab.id, frameId, { type: 'COPY_TEXT', data: { text: account.email } });
+}
+
+async function recordFieldValue(tab: chrome.tabs.Tab, hostname: string, frameId: number | undefined): Promise<void> {
+  if (tab.id === undefined) return;
+
+  const reply = await sendToFrame<{ value: string | null }>(tab.id, frameId, { type: 'READ_CONTEXT_FIELD' });
+  const email = reply?.value?.trim();
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    console.log('Context menu field does not hold an email, not recording');
+    return;
+  }
+
+  const result = await addEmailMapping(await getCanonicalDomain(hostname), email);
+  if (!result.success) {
+    console.log('Could not record field value:', result.error);
+  }
+}
+
+async function neverTrackSite(hostname: string): Promise<void> {
+  await saveSiteRule({ pattern: getRootDomain(hostname), tracking: false, banner: false, formCapture: false });
+}
+
+async function handleMenuClick(info: chrome.contextMenus.OnClickData, tab: chrome.tabs.Tab | undefined): Promise<void> {
+  const hostname = getHttpHostname(info.frameUrl || info.pageUrl);
+  if (!tab || !hostname) return;
+
+  const menuItemId = String(info.menuItemId);
+  if (menuItemId.startsWith(FILL_ITEM_PREFIX)) {
+    if (tab.id !== undefined) {
+      const text = menuItemId.slice(FILL_ITEM_PREFIX.length);
+      await sendToFrame(tab.id, info.frameId, { type: 'FILL_CONTEXT_FIELD', data: { text } });
+    }
+  } else if (menuItemId === COPY_MENU_ID) {
+    await copyAccount(tab, hostname, info.frameId);
+  } else if (menuItemId === RECORD_MENU_ID) {
+    await recordFieldValue(tab, hostname, info.frameId);
+  } else if (menuItemId === NEVER_TRACK_MENU_ID) {
+    await neverTrackSite(hostname);
+  }
+}
+
+/**
+ * Create the menus and keep the fill submenu listing the current site's accounts
+ */
+export function initializeContextMenus(): void {
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    handleMenuClick(info, tab).catch(error => {
+      console.error('Error handling context menu click:', error);
+    });
+  });
+
+  chrome.tabs.onActivated.addListener(() => {
+    refreshContextMenus();
+  });
+
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    if (tab.active && changeInfo.url) {
+      refreshContextMenus();
+    }
+  });
+
+  chrome.windows.onFocusChanged.addListener(windowId => {
+    if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+      refreshContextMenus();
+    }
+  });
+
+  subscribeToDataChanges(() => {
+    refreshContextMenus();
+  });
+
+  refreshContextMenus();
+}
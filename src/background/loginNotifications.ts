@@ -0,0 +1,210 @@
+// System notifications for detected logins, one per site: later logins on the
+// same site update its notification instead of stacking new ones
+
+import { AccountEventType } from '../types/index';
+import { getRootDomain } from '../utils/domain';
+import { deleteEmailMapping } from '../utils/storage';
+import { getNotificationStyle } from '../utils/notificationSettings';
+import { saveSiteRule } from '../utils/trackingSettings';
+
+const NOTIFICATION_ID_PREFIX = 'login|';
+
+// chrome.storage.session key holding each open notification's logins, so
+// buttons still work after the service worker restarts
+const NOTIFIED_LOGINS_KEY = 'notifiedLogins';
+
+// Logins listed in one site's notification
+const MAX_LISTED_LOGINS = 5;
+
+// Chrome shows at most two buttons, so "Add description" is a click on the
+// notification itself
+const NOT_MY_ACCOUNT_BUTTON = 0;
+const IGNORE_SITE_BUTTON = 1;
+
+/**
+ * A login to announce
+ */
+export interface DetectedLogin {
+  // Storage key the login was recorded under
+  domain: string;
+  // Site it was detected on
+  hostname: string;
+  email: string;
+  type: AccountEventType;
+  // No account with this email was known for the site before
+  isNew: boolean;
+}
+
+// Logins shown in each site's notification, most recent first
+type NotifiedLogins = Record<string, DetectedLogin[]>;
+
+async function getNotifiedLogins(): Promise<NotifiedLogins> {
+  const result = await chrome.storage.session.get([NOTIFIED_LOGINS_KEY]);
+  return result[NOTIFIED_LOGINS_KEY] || {};
+}
+
+async function setNotifiedLogins(domain: string, logins: DetectedLogin[] | null): Promise<void> {
+  const notified = await getNotifiedLogins();
+  if (logins) {
+    notified[domain] = logins;
+  } else {
+    delete notified[domain];
+  }
+  await chrome.storage.session.set({ [NOTIFIED_LOGINS_KEY]: notified });
+}
+
+function getDomainFromNotificationId(notificationId: string): string | null {
+  return notificationId.startsWith(NOTIFICATION_ID_PREFIX) ? notificationId.slice(NOTIFICATION_ID_PREFIX.length) : null;
+}
+
+function createNotification(notificationId: string, options: chrome.notifications.NotificationOptions<true>): Promise<void> {
+  return new Promise(resolve => chrome.notifications.create(notificationId, options, () => resolve()));
+}
+
+// Resolves to whether the notification was still open
+function updateNotification(notificationId: string, options: chrome.notifications.NotificationOptions): Promise<boolean> {
+  return new Promise(resolve => chrome.notifications.update(notificationId, options, wasUpdated => resolve(wasUpdated)));
+}
+
+function clearNotification(notificationId: string): Promise<void> {
+  return new Promise(resolve => chrome.notifications.clear(notificationId, () => resolve()));
+}
+
+// Notification title for one login ('Account created on example.com')
+function getLoginTitle(login: DetectedLogin): string {
+  switch (login.type) {
+    case 'signup':
+      return `Account created on ${login.domain}`;
+    case 'password_reset':
+      return `Password reset on ${login.domain}`;
+    case 'email_change':
+      return `Email changed on ${login.domain}`;
+    case 'logout':
+      return `Signed out of ${login.domain}`;
+    default:
+      return login.isNew ? `New account on ${login.domain}` : `Email captured on ${login.domain}`;
+  }
+}
+
+// Short description of a login for list notifications
+function getLoginSummary(login: DetectedLogin): string {
+  if (login.type === 'login') {
+    return login.isNew ? 'new account' : 'captured';
+  }
+  return login.type.replace('_', ' ');
+}
+
+function buildNotification(domain: string, logins: DetectedLogin[]): chrome.notifications.NotificationOptions<true> {
+  const [latest] = logins;
+  const base = {
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    contextMessage: 'Click to add a description',
+    buttons: [{ title: logins.length === 1 ? 'Not my account' : 'Not my accounts' }, { title: 'Ignore this site' }]
+  };
+
+  if (logins.length === 1) {
+    return {
+      ...base,
+      type: 'basic',
+      title: getLoginTitle(latest),
+      message: latest.email
+    };
+  }
+  return {
+    ...base,
+    type: 'list',
+    title: `${logins.length} logins on ${domain}`,
+    message: latest.email,
+    items: logins.map(login => ({ title: login.email, message: getLoginSummary(login) }))
+  };
+}
+
+/**
+ * Announce a recorded login with a system notification, if that is the chosen style
+ */
+export async function notifyLoginDetected(login: DetectedLogin): Promise<void> {
+  try {
+    if ((await getNotificationStyle()) !== 'system') return;
+
+    const notificationId = `${NOTIFICATION_ID_PREFIX}${login.domain}`;
+    const shown = (await getNotifiedLogins())[login.domain] || [];
+
+    // Add to the site's open notification. Updating in place (rather than
+    // re-creating) keeps onClosed from firing and forgetting the list.
+    if (shown.length > 0) {
+      const logins = [login, ...shown.filter(entry => entry.email !== login.email)].slice(0, MAX_LISTED_LOGINS);
+      if (await updateNotification(notificationId, buildNotification(login.domain, logins))) {
+        await setNotifiedLogins(login.domain, logins);
+        return;
+      }
+    }
+
+    await setNotifiedLogins(login.domain, [login]);
+    await createNotification(notificationId, buildNotification(login.domain, [login]));
+  } catch (error) {
+    console.error('Error showing login notification:', error);
+  }
+}
+
+async function closeNotification(notificationId: string, domain: string): Promise<void> {
+  await clearNotification(notificationId);
+  await setNotifiedLogins(domain, null);
+}
+
+// Open the popup's edit form for the account in a tab (a service worker can't
+// open the action popup itself)
+async function openDescriptionEditor(login: DetectedLogin): Promise<void> {
+  const params = new URLSearchParams({ editDomain: login.domain, editEmail: login.email });
+  await chrome.tabs.create({ url: chrome.runtime.getURL(`popup.html?${params}`) });
+}
+
+async function handleNotificationAction(notificationId: string, buttonIndex: number | null): Promise<void> {
+  const domain = getDomainFromNotificationId(notificationId);
+  if (!domain) return;
+
+  const logins = (await getNotifiedLogins())[domain] || [];
+  await closeNotification(notificationId, domain);
+  const [latest] = logins;
+  if (!latest) return;
+
+  if (buttonIndex === null) {
+    await openDescriptionEditor(latest);
+  } else if (buttonIndex === NOT_MY_ACCOUNT_BUTTON) {
+    // Applies to every listed login, since closing the notification drops
+    // them all. Moves the entries to the trash, so they can still be restored.
+    for (const login of logins) {
+      const result = await deleteEmailMapping(login.domain, login.email);
+      if (!result.success) {
+        console.log('Could not remove account from notification:', login.email, result.error);
+      }
+    }
+  } else if (buttonIndex === IGNORE_SITE_BUTTON) {
+    await saveSiteRule({ pattern: getRootDomain(latest.hostname), tracking: false, banner: false, formCapture: false });
+  }
+}
+
+/**
+ * Handle clicks and buttons on login notifications
+ */
+export function initializeLoginNotifications(): void {
+  chrome.notifications.onClicked.addListener(notificationId => {
+    handleNotificationAction(notificationId, null).catch(error => {
+      console.error('Error handling notification click:', error);
+    });
+  });
+
+  chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+    handleNotificationAction(notificationId, buttonIndex).catch(error => {
+      console.error('Error handling notification button:', error);
+    });
+  });
+
+  chrome.notifications.onClosed.addListener(notificationId => {
+    const domain = getDomainFromNotificationId(notificationId);
+    if (domain) {
+      setNotifiedLogins(domain, null).catch(error => {
+        console.error('Error forgetting closed notification:', error);
+      });
+    }
+  });
+}
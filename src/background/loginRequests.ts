@@ -0,0 +1,118 @@
+// Detects logins made with fetch/XHR (single-page apps) from the request body,
+// which the content script's form-submit listener never sees
+
+import { LoginRequestBody, findIdentifierInBody, getIdentifierFields } from '../utils/identifierFields';
+import { classifyAccountUrl } from '../utils/accountEvents';
+
+// Endpoints that look like a login or identifier-lookup step
+const LOGIN_URL_PATTERN = /\/(log-?in|sign-?in|sign_in|sessions?|auth(enticate)?|token|identifier|lookup)(\/|\?|$|\.)/i;
+
+// A password field marks a body as a login whatever the URL (form field name, or key in a raw body)
+const PASSWORD_FIELD_PATTERN = /^(pass(word|wd)?|pwd)$/i;
+const PASSWORD_KEY_PATTERN = /["']?(pass(word|wd)?|pwd)["']?\s*[:=]/i;
+
+// Larger bodies are uploads, not logins
+const MAX_BODY_BYTES = 64 * 1024;
+
+// The same account seen again in one tab within this window (identifier step,
+// then password step) counts as one login
+const REPEAT_WINDOW_MS = 30 * 1000;
+
+/**
+ * An identifier read from a login request
+ */
+export interface LoginRequestCapture {
+  email: string;
+  // Page that sent the request
+  hostname: string;
+  url: string;
+  tabId: number;
+}
+
+export type LoginRequestListener = (capture: LoginRequestCapture) => Promise<void>;
+
+// `${tabId}|${email}` -> when it was last reported
+const recentCaptures = new Map<string, number>();
+
+function getHttpHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function decodeRawBody(raw: chrome.webRequest.UploadData[]): string | null {
+  const chunks = raw.map(part => part.bytes).filter((bytes): bytes is ArrayBuffer => !!bytes);
+  const size = chunks.reduce((total, bytes) => total + bytes.byteLength, 0);
+  if (size === 0 || size > MAX_BODY_BYTES) return null;
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const bytes of chunks) {
+    body.set(new Uint8Array(bytes), offset);
+    offset += bytes.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+function isRepeat(tabId: number, email: string): boolean {
+  const key = `${tabId}|${email.toLowerCase()}`;
+  const now = Date.now();
+  for (const [entry, seenAt] of recentCaptures) {
+    if (now - seenAt > REPEAT_WINDOW_MS) recentCaptures.delete(entry);
+  }
+  const repeat = recentCaptures.has(key);
+  recentCaptures.set(key, now);
+  return repeat;
+}
+
+async function inspectRequest(details: chrome.webRequest.WebRequestBodyDetails, listener: LoginRequestListener): Promise<void> {
+  const requestBody = details.requestBody;
+  if (!requestBody) return;
+
+  const formData = requestBody.formData;
+  const raw = !formData && requestBody.raw ? decodeRawBody(requestBody.raw) : null;
+
+  let body: LoginRequestBody;
+  let hasPassword: boolean;
+  if (formData) {
+    body = { formData };
+    hasPassword = Object.keys(formData).some(key => PASSWORD_FIELD_PATTERN.test(key));
+  } else if (raw) {
+    body = { raw };
+    hasPassword = PASSWORD_KEY_PATTERN.test(raw);
+  } else {
+    return;
+  }
+  // Signup and password-reset endpoints count too ('/password/forgot' with just an email)
+  if (!hasPassword && !LOGIN_URL_PATTERN.test(details.url) && !classifyAccountUrl(details.url)) return;
+
+  const email = findIdentifierInBody(body, await getIdentifierFields());
+  if (!email || isRepeat(details.tabId, email)) return;
+
+  const hostname = getHttpHostname(details.initiator) || getHttpHostname(details.url);
+  if (!hostname) return;
+
+  await listener({ email, hostname, url: details.url, tabId: details.tabId });
+}
+
+/**
+ * Start watching fetch/XHR POSTs for login identifiers
+ */
+export function initializeLoginRequestCapture(onCapture: LoginRequestListener): void {
+  chrome.webRequest.onBeforeRequest.addListener(
+    details => {
+      // Only page requests; the extension's own and service worker requests have no tab
+      if (details.method !== 'POST' || details.tabId < 0) return;
+
+      inspectRequest(details, onCapture).catch(error => {
+        console.error('Error inspecting login request:', error);
+      });
+    },
+    { urls: ['<all_urls>'], types: ['xmlhttprequest'] },
+    ['requestBody']
+  );
+}
@@ -0,0 +1,318 @@
+// Follows "Sign in with ..." flows from the identity provider's authorize
+// request to the callback on the relying site, so the login can be stored with
+// the provider and provider account that were used. An id_token or SAML
+// response delivered to the site identifies the account even without a
+// tracked authorize request.
+
+import { IdentityProviderLogin, LoginMethod } from '../types/index';
+import { getRootDomain } from '../utils/domain';
+import { matchIdentityProvider, matchTokenIssuer } from '../utils/identityProviders';
+import { DecodedIdentity, findIdentityInParams, findIdentityInUrl } from '../utils/identityTokens';
+import { OriginatingSite, resolveOriginatingSite } from './tabAttribution';
+
+// Flows that never reach their callback (cancelled, closed popup) are dropped after this
+const FLOW_TTL_MS = 10 * 60 * 1000;
+
+// How long a request handled here stays visible to isOAuthFlowRequest
+// (also how long a decoded token is remembered, so it is recorded once)
+const FLOW_REQUEST_TTL_MS = 60 * 1000;
+
+// Credentials that must not end up in a stored source URL
+const SECRET_PARAMS = ['id_token', 'access_token'];
+
+// Parameters identity providers use to name the account being signed in
+const ACCOUNT_PARAMS = ['login_hint', 'email', 'Email', 'user_email', 'login', 'username'];
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+/**
+ * A sign-in in progress in one tab (the OAuth popup, or the tab itself for redirect flows)
+ */
+interface OAuthFlow {
+  provider: IdentityProviderLogin;
+  providerRoot: string;
+  origin: Promise<OriginatingSite | null>;
+  // origin + path of redirect_uri, the callback that ends the flow
+  callback?: string;
+  state?: string;
+  email?: string;
+  // id_token/SAML response seen on the way back to the site
+  identity?: DecodedIdentity;
+  startedAt: number;
+}
+
+/**
+ * A flow that reached the relying site. `email` is null when the provider
+ * never revealed which account was used; `method` is 'identity_token' when
+ * the account came from a decoded id_token or SAML response.
+ */
+export interface CompletedOAuthFlow {
+  provider?: IdentityProviderLogin;
+  site: OriginatingSite;
+  email: string | null;
+  url: string;
+  method: LoginMethod;
+}
+
+export type OAuthFlowListener = (flow: CompletedOAuthFlow) => Promise<void>;
+
+// tabId -> flow in progress in that tab
+const flows = new Map<number, OAuthFlow>();
+
+// requestIds already attributed to a flow
+const flowRequests = new Set<string>();
+
+// Tokens already used, since one can be seen on both a redirect and the request it leads to
+const seenTokens = new Set<string>();
+
+function getCallbackKey(url: string | null): string | undefined {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? `${parsed.origin}${parsed.pathname}` : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function findAccountEmail(params: URLSearchParams): string | undefined {
+  for (const name of ACCOUNT_PARAMS) {
+    const value = params.get(name)?.trim();
+    if (value && EMAIL_PATTERN.test(value)) return value.toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * The URL to store for a login, without tokens (fragments only ever carry tokens here)
+ */
+function getRecordedUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  SECRET_PARAMS.forEach(name => parsed.searchParams.delete(name));
+  return parsed.href;
+}
+
+function markFlowRequest(requestId: string): void {
+  flowRequests.add(requestId);
+  setTimeout(() => flowRequests.delete(requestId), FLOW_REQUEST_TTL_MS);
+}
+
+/**
+ * Returns false if this token was already seen
+ */
+function claimToken(identity: DecodedIdentity): boolean {
+  if (seenTokens.has(identity.token)) return false;
+  seenTokens.add(identity.token);
+  setTimeout(() => seenTokens.delete(identity.token), FLOW_REQUEST_TTL_MS);
+  return true;
+}
+
+function getActiveFlow(tabId: number): OAuthFlow | undefined {
+  const flow = flows.get(tabId);
+  if (flow && Date.now() - flow.startedAt > FLOW_TTL_MS) {
+    flows.delete(tabId);
+    return undefined;
+  }
+  return flow;
+}
+
+function isFlowCallback(flow: OAuthFlow, url: URL): boolean {
+  if (flow.callback && getCallbackKey(url.href) === flow.callback) return true;
+  return !!flow.state && url.searchParams.get('state') === flow.state && getRootDomain(url.hostname) !== flow.providerRoot;
+}
+
+function startFlow(details: chrome.webRequest.WebRequestBodyDetails, provider: IdentityProviderLogin, url: URL): void {
+  const existing = getActiveFlow(details.tabId);
+  const email = findAccountEmail(url.searchParams);
+  const callback = getCallbackKey(url.searchParams.get('redirect_uri'));
+
+  // Later hops of the same authorization (consent screens, account choosers)
+  if (existing && existing.provider.issuer === provider.issuer && (!callback || callback === existing.callback)) {
+    if (email) existing.email = email;
+    return;
+  }
+
+  const state = url.searchParams.get('state');
+  flows.set(details.tabId, {
+    provider,
+    providerRoot: getRootDomain(url.hostname),
+    origin: resolveOriginatingSite(details),
+    startedAt: Date.now(),
+    ...(callback ? { callback } : {}),
+    ...(state ? { state } : {}),
+    ...(email ? { email } : {})
+  });
+  console.log('OAuth flow started:', { provider: provider.id, tabId: details.tabId, callback });
+}
+
+/**
+ * The provider a token came from, with the account's stable id
+ */
+function getTokenProvider(identity: DecodedIdentity): IdentityProviderLogin | undefined {
+  if (!identity.issuer) return undefined;
+  const provider = matchTokenIssuer(identity.issuer, identity.protocol);
+  return identity.subject ? { ...provider, subject: identity.subject } : provider;
+}
+
+async function completeFlow(tabId: number, flow: OAuthFlow, url: string, listener: OAuthFlowListener): Promise<void> {
+  flows.delete(tabId);
+
+  // The callback host is the relying site; the origin says which tab to credit
+  const origin = await flow.origin;
+  const hostname = new URL(url).hostname;
+  const site: OriginatingSite = origin?.tabId !== undefined ? { hostname, tabId: origin.tabId } : { hostname };
+
+  // A decoded token names the account more reliably than anything seen on the provider's pages
+  const identity = flow.identity;
+  await listener({
+    site,
+    url: getRecordedUrl(url),
+    email: identity?.email || flow.email || null,
+    method: identity?.email ? 'identity_token' : 'oauth_flow',
+    provider: identity?.subject ? { ...flow.provider, subject: identity.subject } : flow.provider
+  });
+}
+
+/**
+ * Record a token delivered to a site outside any tracked flow (IdP-initiated
+ * SAML, or a flow that started before the service worker did)
+ */
+async function completeTokenLogin(
+  details: chrome.webRequest.ResourceRequest,
+  url: string,
+  identity: DecodedIdentity,
+  listener: OAuthFlowListener
+): Promise<void> {
+  const origin = await resolveOriginatingSite(details);
+  const hostname = new URL(url).hostname;
+  const provider = getTokenProvider(identity);
+
+  await listener({
+    site: origin?.tabId !== undefined ? { hostname, tabId: origin.tabId } : { hostname },
+    url: getRecordedUrl(url),
+    email: identity.email || null,
+    method: 'identity_token',
+    ...(provider ? { provider } : {})
+  });
+}
+
+/**
+ * Find an id_token or SAML response in a request's URL or form_post body
+ */
+function findRequestIdentity(details: chrome.webRequest.WebRequestBodyDetails): DecodedIdentity | null {
+  const fromUrl = findIdentityInUrl(details.url);
+  if (fromUrl) return fromUrl;
+
+  const formData = details.requestBody?.formData;
+  if (!formData) return null;
+
+  const params = new URLSearchParams();
+  for (const name of ['id_token', 'SAMLResponse']) {
+    const value = formData[name]?.[0];
+    if (typeof value === 'string') params.set(name, value);
+  }
+  return findIdentityInParams(params);
+}
+
+/**
+ * Start following OAuth/OIDC flows; `onComplete` is called when one returns
+ * to the relying site
+ */
+export function initializeOAuthFlowTracking(onComplete: OAuthFlowListener): void {
+  chrome.webRequest.onBeforeRequest.addListener(
+    details => {
+      if (details.tabId < 0) return;
+
+      let url: URL;
+      try {
+        url = new URL(details.url);
+      } catch (error) {
+        return;
+      }
+
+      const provider = matchIdentityProvider(details.url);
+      if (provider) {
+        markFlowRequest(details.requestId);
+        startFlow(details, provider, url);
+        return;
+      }
+
+      const flow = getActiveFlow(details.tabId);
+      const found = findRequestIdentity(details);
+      const identity = found && claimToken(found) ? found : null;
+      const onProvider = !!flow && getRootDomain(url.hostname) === flow.providerRoot;
+
+      if (flow && (isFlowCallback(flow, url) || (identity && !onProvider))) {
+        markFlowRequest(details.requestId);
+        if (identity) flow.identity = identity;
+        const email = flow.email || findAccountEmail(url.searchParams);
+        if (email) flow.email = email;
+        completeFlow(details.tabId, flow, details.url, onComplete).catch(error => {
+          console.error('Error completing OAuth flow:', error);
+        });
+      } else if (identity) {
+        markFlowRequest(details.requestId);
+        completeTokenLogin(details, details.url, identity, onComplete).catch(error => {
+          console.error('Error recording identity token:', error);
+        });
+      } else if (flow && onProvider) {
+        // Still on the provider (account chooser, password, 2FA)
+        markFlowRequest(details.requestId);
+        const email = findAccountEmail(url.searchParams);
+        if (email) flow.email = email;
+      }
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame'] },
+    ['requestBody']
+  );
+
+  // Implicit and hybrid flows return the id_token in the redirect's URL fragment
+  chrome.webRequest.onBeforeRedirect.addListener(
+    details => {
+      if (details.tabId < 0) return;
+
+      const identity = findIdentityInUrl(details.redirectUrl);
+      if (!identity || !claimToken(identity)) return;
+
+      const flow = getActiveFlow(details.tabId);
+      if (flow) {
+        // Completed when the redirect reaches the site
+        flow.identity = identity;
+        const callback = getCallbackKey(details.redirectUrl);
+        if (callback) flow.callback = callback;
+        return;
+      }
+
+      markFlowRequest(details.requestId);
+      completeTokenLogin(details, details.redirectUrl, identity, onComplete).catch(error => {
+        console.error('Error recording identity token:', error);
+      });
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame'] }
+  );
+
+  chrome.tabs.onRemoved.addListener(tabId => {
+    flows.delete(tabId);
+  });
+}
+
+/**
+ * Whether a request belongs to a tracked flow (and will be recorded when it completes)
+ */
+export function isOAuthFlowRequest(requestId: string): boolean {
+  return flowRequests.has(requestId);
+}
+
+/**
+ * Attach an account the content script saw on the provider's own pages to
+ * the flow running in that tab. Returns true if a flow took it.
+ */
+export function noteOAuthFlowAccount(tabId: number, hostname: string, email: string): boolean {
+  const flow = getActiveFlow(tabId);
+  if (!flow || getRootDomain(hostname) !== flow.providerRoot || !EMAIL_PATTERN.test(email)) {
+    return false;
+  }
+  flow.email = email.toLowerCase();
+  return true;
+}
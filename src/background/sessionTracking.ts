@@ -0,0 +1,102 @@
+// Detects logouts (logout URLs and session cookies being cleared) and ends the
+// sessions of the accounts signed in to that site
+
+import { LoginMethod } from '../types/index';
+import { getRootDomain } from '../utils/domain';
+import { getStoredMappingsForSite, recordLogout } from '../utils/storage';
+import { classifyAccountUrl } from '../utils/accountEvents';
+import { isSessionOpen } from '../utils/sessions';
+import { isTrackingAllowed } from '../utils/trackingSettings';
+
+// Cookie names that usually carry a sign-in session
+const SESSION_COOKIE_PATTERN = /(sess|sid|auth|token|login|logged.?in|remember|jwt|identity)/i;
+
+// Removals that mean the cookie is gone, not replaced with a fresh value
+const CLEARED_COOKIE_CAUSES = ['explicit', 'expired', 'expired_overwrite', 'evicted'];
+
+// Sites often clear and re-set session cookies while signing in, so a site
+// counts as signed out only if no session cookie is back after this long
+const COOKIE_SETTLE_MS = 5 * 1000;
+
+// Root domain -> pending session-cookie check
+const pendingCookieChecks = new Map<string, ReturnType<typeof setTimeout>>();
+
+function getHttpHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * End the open sessions of every account signed in to a site, under whichever
+ * of its equivalent domains each account is stored. Returns how many sessions
+ * were ended.
+ */
+export async function endSiteSessions(hostname: string, url: string, method: LoginMethod): Promise<number> {
+  if (!(await isTrackingAllowed(hostname))) return 0;
+
+  const open = (await getStoredMappingsForSite(hostname)).filter(isSessionOpen);
+  let ended = 0;
+  for (const entry of open) {
+    if (await recordLogout(entry.domain, entry.email, url, method)) ended++;
+  }
+
+  if (ended > 0) {
+    console.log('Sessions ended:', { site: hostname, method, count: ended });
+  }
+  return ended;
+}
+
+async function hasSessionCookie(domain: string): Promise<boolean> {
+  const cookies = await chrome.cookies.getAll({ domain });
+  return cookies.some(cookie => SESSION_COOKIE_PATTERN.test(cookie.name));
+}
+
+function scheduleCookieCheck(domain: string): void {
+  const pending = pendingCookieChecks.get(domain);
+  if (pending) clearTimeout(pending);
+
+  pendingCookieChecks.set(domain, setTimeout(() => {
+    pendingCookieChecks.delete(domain);
+    hasSessionCookie(domain)
+      .then(signedIn => (signedIn ? 0 : endSiteSessions(domain, `https://${domain}/`, 'session_cookie')))
+      .catch(error => {
+        console.error('Error checking session cookies:', error);
+      });
+  }, COOKIE_SETTLE_MS));
+}
+
+/**
+ * Start watching for logout requests and cleared session cookies
+ */
+export function initializeSessionTracking(): void {
+  chrome.webRequest.onBeforeRequest.addListener(
+    details => {
+      if (details.tabId < 0 || details.method === 'OPTIONS' || classifyAccountUrl(details.url) !== 'logout') return;
+
+      // A logout link or form navigates; a single-page app posts from the page
+      const hostname = details.type === 'xmlhttprequest'
+        ? getHttpHostname(details.initiator)
+        : getHttpHostname(details.url);
+      if (!hostname) return;
+
+      endSiteSessions(hostname, details.url, 'logout_url').catch(error => {
+        console.error('Error ending sessions after logout request:', error);
+      });
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame', 'xmlhttprequest'] }
+  );
+
+  chrome.cookies.onChanged.addListener(({ cookie, removed, cause }) => {
+    if (!removed || !CLEARED_COOKIE_CAUSES.includes(cause) || !SESSION_COOKIE_PATTERN.test(cookie.name)) return;
+
+    const domain = getRootDomain(cookie.domain.replace(/^\./, ''));
+    if (domain) {
+      scheduleCookieCheck(domain);
+    }
+  });
+}
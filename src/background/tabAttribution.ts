@@ -0,0 +1,189 @@
+// Works out which site an OAuth request belongs to, from the request itself
+// rather than whichever tab happens to be active
+
+import { getRootDomain } from '../utils/domain';
+
+// Top-level sites remembered per tab (most recent last)
+const MAX_TAB_SITES = 5;
+
+// How long a finished request's redirect chain stays readable by the OAuth analyzer
+const REDIRECT_CHAIN_TTL_MS = 60 * 1000;
+
+// OAuth/OIDC/SAML parameters that point back at the site that started the login
+const RETURN_URL_PARAMS = ['redirect_uri', 'redirect_url', 'return_to', 'returnTo', 'continue'];
+
+// Parameters only present when an identity provider hands the user back to the site
+const CALLBACK_PARAMS = ['code', 'id_token', 'access_token', 'SAMLResponse'];
+
+/**
+ * Where a navigation's redirect chain started
+ */
+interface RedirectChain {
+  firstUrl: string;
+  initiator?: string;
+}
+
+/**
+ * The site a login happened on, and the tab it should be credited to
+ */
+export interface OriginatingSite {
+  hostname: string;
+  tabId?: number;
+}
+
+// requestId -> start of its redirect chain (cleared when the request finishes)
+const redirectChains = new Map<string, RedirectChain>();
+
+// tabId -> tab that opened it with window.open (OAuth popups)
+const tabOpeners = new Map<number, number>();
+
+// tabId -> recent top-level hostnames
+const tabSites = new Map<number, string[]>();
+
+function getHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function rememberTabSite(tabId: number, hostname: string): void {
+  const sites = (tabSites.get(tabId) || []).filter(site => site !== hostname);
+  sites.push(hostname);
+  tabSites.set(tabId, sites.slice(-MAX_TAB_SITES));
+}
+
+/**
+ * The most recent site in a tab that isn't `excludeRoot` (the identity provider)
+ */
+function getTabSite(tabId: number, excludeRoot: string): string | null {
+  const sites = tabSites.get(tabId) || [];
+  for (let i = sites.length - 1; i >= 0; i--) {
+    if (getRootDomain(sites[i]) !== excludeRoot) return sites[i];
+  }
+  return null;
+}
+
+/**
+ * The site named by a return-URL parameter (redirect_uri etc.), unless it
+ * points back at the identity provider itself
+ */
+function getReturnSite(url: string, excludeRoot: string): string | null {
+  try {
+    const params = new URL(url).searchParams;
+    for (const name of RETURN_URL_PARAMS) {
+      const hostname = getHostname(params.get(name) || undefined);
+      if (hostname && getRootDomain(hostname) !== excludeRoot) return hostname;
+    }
+  } catch (error) {
+    // Not a URL
+  }
+  return null;
+}
+
+function isCallbackUrl(url: string): boolean {
+  try {
+    const params = new URL(url).searchParams;
+    return !params.has('client_id') && CALLBACK_PARAMS.some(name => params.has(name));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Start tracking tabs, popups and redirect chains
+ */
+export function initializeTabAttribution(): void {
+  chrome.tabs.onCreated.addListener(tab => {
+    if (tab.id !== undefined && tab.openerTabId !== undefined) {
+      tabOpeners.set(tab.id, tab.openerTabId);
+    }
+  });
+
+  chrome.tabs.onRemoved.addListener(tabId => {
+    tabOpeners.delete(tabId);
+    tabSites.delete(tabId);
+  });
+
+  chrome.webRequest.onBeforeRedirect.addListener(
+    details => {
+      if (!redirectChains.has(details.requestId)) {
+        redirectChains.set(details.requestId, {
+          firstUrl: details.url,
+          ...(details.initiator ? { initiator: details.initiator } : {})
+        });
+      }
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame'] }
+  );
+
+  chrome.webRequest.onCompleted.addListener(
+    details => {
+      const hostname = getHostname(details.url);
+      if (details.type === 'main_frame' && details.tabId >= 0 && hostname) {
+        rememberTabSite(details.tabId, hostname);
+      }
+      // Let the OAuth listener read the chain before it is dropped
+      setTimeout(() => redirectChains.delete(details.requestId), REDIRECT_CHAIN_TTL_MS);
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame'] }
+  );
+
+  chrome.webRequest.onErrorOccurred.addListener(
+    details => {
+      redirectChains.delete(details.requestId);
+    },
+    { urls: ['<all_urls>'], types: ['main_frame', 'sub_frame'] }
+  );
+}
+
+/**
+ * Work out which site an OAuth request was made for. In order of preference:
+ * the site named in redirect_uri, the tab that opened an OAuth popup, the
+ * site an identity provider redirected back to, the site that started the
+ * redirect chain, and finally the last other site open in the tab.
+ */
+export async function resolveOriginatingSite(
+  details: chrome.webRequest.ResourceRequest
+): Promise<OriginatingSite | null> {
+  const requestHost = getHostname(details.url);
+  if (!requestHost) return null;
+
+  const providerRoot = getRootDomain(requestHost);
+  const chain = redirectChains.get(details.requestId);
+  const openerTabId = details.tabId >= 0 ? tabOpeners.get(details.tabId) : undefined;
+  const creditTabId = openerTabId ?? (details.tabId >= 0 ? details.tabId : undefined);
+  const site = (hostname: string): OriginatingSite =>
+    creditTabId !== undefined ? { hostname, tabId: creditTabId } : { hostname };
+
+  const returnSite = getReturnSite(details.url, providerRoot) || (chain ? getReturnSite(chain.firstUrl, providerRoot) : null);
+  if (returnSite) return site(returnSite);
+
+  if (openerTabId !== undefined) {
+    const openerSite = getTabSite(openerTabId, providerRoot);
+    if (openerSite) return site(openerSite);
+
+    try {
+      const opener = await chrome.tabs.get(openerTabId);
+      const openerHost = getHostname(opener.url);
+      if (openerHost) return site(openerHost);
+    } catch (error) {
+      // Opener was closed
+    }
+  }
+
+  if (isCallbackUrl(details.url)) return site(requestHost);
+
+  for (const origin of [chain?.initiator, details.initiator, chain?.firstUrl]) {
+    const originHost = getHostname(origin);
+    if (originHost && getRootDomain(originHost) !== providerRoot) return site(originHost);
+  }
+
+  if (details.tabId >= 0) {
+    return site(getTabSite(details.tabId, providerRoot) || requestHost);
+  }
+  return null;
+}
@@ -1,7 +1,54 @@
 // Content script for Login Tracker Extension
 // Runs on web pages to detect login events and UI interactions
 
-import { ContentMessage, APICallData } from '../types/index';
+import { AccountEventType, ContentMessage, ContentReply, APICallData, IdentityProviderLogin } from '../types/index';
+import { classifyAccountText, classifyAccountUrl } from '../utils/accountEvents';
+import { subscribeToDataChanges } from '../utils/changeFeed';
+import { getProviderLabel } from '../utils/identityProviders';
+import { sendMessageToBackground } from '../utils/messaging';
+import { DEFAULT_SITE_POLICY, SitePolicy, subscribeToTrackingSettings } from '../utils/trackingSettings';
+import { getNotificationStyle } from '../utils/notificationSettings';
+
+// Stored email as shown in the login banner (switchable when it has saved
+// cookies the browser isn't already using)
+type BannerEmail = {
+  email: string;
+  timestamp: number;
+  count: number;
+  description?: string;
+  provider?: IdentityProviderLogin;
+  switchable?: boolean;
+};
+
+// What the user allows on this site, and whether tracking is paused everywhere
+let sitePolicy: SitePolicy = { ...DEFAULT_SITE_POLICY };
+let trackingPaused = false;
+
+// Wording of pages shown after signing out
+const SIGNED_OUT_PATTERN = /\b(you('ve| have)( been)?( successfully)? (signed|logged) out|(signed|logged) out successfully|you are (now )?(signed|logged) out)\b/i;
+
+// The editable field the context menu was last opened on
+let contextField: HTMLElement | null = null;
+
+// Fields that take the account identifier: email inputs, plus the username
+// field of identifier-first pages (email or username now, password on the next step)
+const IDENTIFIER_INPUT_SELECTOR = [
+  'input[type="email"]',
+  'input[name*="email"]',
+  'input[autocomplete~="username"]',
+  'input[autocomplete~="email"]',
+  'input[name="identifier"]',
+  'input[name="username"]',
+  'input[name="login"]',
+  'input[id="identifierId"]'
+].join(', ');
+
+// The identifier field the user last focused (banner clicks take the focus away)
+let lastIdentifierInput: HTMLInputElement | null = null;
+
+// Set while the extension fills a field itself, so tap-to-capture doesn't
+// record the account it just filled as another login
+let fillingField = false;
 
 /**
  * Content script initialization
@@ -9,14 +56,54 @@ import { ContentMessage, APICallData } from '../types/index';
 function initializeContentScript(): void {
   console.log('Login Tracker content script loaded on:', window.location.hostname);
 
-  // Check if this is a login page and show notification banner
-  checkForLoginPageAndShowBanner();
+  // Once this site's rules are known: show the banner on login pages, and end
+  // this site's sessions if the page says we just signed out
+  loadSitePolicy().then(() => {
+    checkForLoginPageAndShowBanner();
+    checkForSignedOutPage();
+  });
+
+  // Apply rule changes made in the popup right away
+  subscribeToTrackingSettings(() => {
+    loadSitePolicy();
+  });
 
   // Monitor for potential login events
   monitorForLoginEvents();
 
   // Listen for messages from background script
   chrome.runtime.onMessage.addListener(handleBackgroundMessage);
+
+  // Remember which field the context menu targets, for its fill/record actions
+  document.addEventListener('contextmenu', handleContextMenu, true);
+
+  // Keep an open login banner in sync with logins detected elsewhere
+  subscribeToDataChanges(handleDataChange);
+}
+
+/**
+ * Load this site's rules, and hide the banner if it was just turned off
+ */
+async function loadSitePolicy(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_SITE_POLICY', { hostname: window.location.hostname });
+    sitePolicy = response.policy;
+    trackingPaused = response.isPaused;
+  } catch (error) {
+    console.error('Error loading site policy:', error);
+  }
+
+  if (!sitePolicy.banner) {
+    removeExistingBanners();
+  }
+}
+
+/**
+ * Check whether logins may be captured on this page. Form captures
+ * (tap-to-capture, form submits) can be turned off on their own.
+ */
+function canCapture(isFormCapture: boolean): boolean {
+  return !trackingPaused && sitePolicy.tracking && (!isFormCapture || sitePolicy.formCapture);
 }
 
 /**
@@ -46,7 +133,7 @@ function monitorForLoginEvents(): void {
  */
 function monitorEmailInputFields(): void {
   // Monitor existing email input fields
-  const emailInputs = document.querySelectorAll('input[type="email"], input[name*="email"]');
+  const emailInputs = document.querySelectorAll(IDENTIFIER_INPUT_SELECTOR);
   emailInputs.forEach(setupEmailInputMonitoring);
 
   // Monitor dynamically added email input fields
@@ -55,7 +142,7 @@ function monitorEmailInputFields(): void {
       mutation.addedNodes.forEach((node) => {
         if (node.nodeType === Node.ELEMENT_NODE) {
           const element = node as Element;
-          const newEmailInputs = element.querySelectorAll?.('input[type="email"], input[name*="email"]');
+          const newEmailInputs = element.querySelectorAll?.(IDENTIFIER_INPUT_SELECTOR);
           if (newEmailInputs.length > 0) {
             newEmailInputs.forEach(setupEmailInputMonitoring);
           }
@@ -75,18 +162,22 @@ function setupEmailInputMonitoring(input: Element): void {
 
   // Track focus events (when user taps/clicks on the field)
   emailInput.addEventListener('focus', () => {
+    lastIdentifierInput = emailInput;
+    if (fillingField) return;
+
     // Small delay to allow user to start typing
     setTimeout(() => {
       if (emailInput.value && isValidEmail(emailInput.value)) {
-        captureEmailFromInput(emailInput.value);
+        captureEmailFromInput(emailInput.value, emailInput.form);
       }
     }, 100);
   });
 
   // Track input events (when user types)
   emailInput.addEventListener('input', () => {
+    if (fillingField) return;
     if (emailInput.value && isValidEmail(emailInput.value)) {
-      captureEmailFromInput(emailInput.value);
+      captureEmailFromInput(emailInput.value, emailInput.form);
     }
   });
 
@@ -94,7 +185,7 @@ function setupEmailInputMonitoring(input: Element): void {
   emailInput.addEventListener('paste', () => {
     setTimeout(() => {
       if (emailInput.value && isValidEmail(emailInput.value)) {
-        captureEmailFromInput(emailInput.value);
+        captureEmailFromInput(emailInput.value, emailInput.form);
       }
     }, 100);
   });
@@ -146,26 +237,24 @@ function extractEmailFromOAuthParams(urlParams: URLSearchParams): string | null
  * Capture email from OAuth redirect and store it
  */
 function captureEmailFromOAuth(email: string): void {
+  if (!canCapture(false)) return;
+
   const domain = window.location.hostname;
 
   console.log('Email captured from OAuth redirect:', email, 'on domain:', domain);
 
   // Send login detection to background script
-  chrome.runtime.sendMessage({
-    type: 'LOGIN_DETECTED',
-    data: {
-      email: email,
-      website: domain,
-      timestamp: Date.now(),
-      url: window.location.href,
-      method: 'oauth_capture'
-    }
-  }, (response) => {
-    if (chrome.runtime.lastError) {
-      console.error('Error sending OAuth login detection:', chrome.runtime.lastError);
-    } else {
-      console.log('OAuth login detection response:', response);
-    }
+  sendMessageToBackground('LOGIN_DETECTED', {
+    email: email,
+    website: domain,
+    timestamp: Date.now(),
+    url: window.location.href,
+    method: 'oauth_capture',
+    type: classifyAccountUrl(window.location.href) || 'login'
+  }).then(response => {
+    console.log('OAuth login detection response:', response);
+  }).catch(error => {
+    console.error('Error sending OAuth login detection:', error);
   });
 
   // Show minimal notification
@@ -175,27 +264,25 @@ function captureEmailFromOAuth(email: string): void {
 /**
  * Capture email from input field and store it
  */
-function captureEmailFromInput(email: string): void {
+function captureEmailFromInput(email: string, form: HTMLFormElement | null): void {
+  if (!canCapture(true)) return;
+
   const domain = window.location.hostname;
 
   console.log('Email captured from input field:', email, 'on domain:', domain);
 
   // Send login detection to background script
-  chrome.runtime.sendMessage({
-    type: 'LOGIN_DETECTED',
-    data: {
-      email: email,
-      website: domain,
-      timestamp: Date.now(),
-      url: window.location.href,
-      method: 'tap_capture'
-    }
-  }, (response) => {
-    if (chrome.runtime.lastError) {
-      console.error('Error sending login detection:', chrome.runtime.lastError);
-    } else {
-      console.log('Login detection response:', response);
-    }
+  sendMessageToBackground('LOGIN_DETECTED', {
+    email: email,
+    website: domain,
+    timestamp: Date.now(),
+    url: window.location.href,
+    method: 'tap_capture',
+    type: getAccountEventType(form)
+  }).then(response => {
+    console.log('Login detection response:', response);
+  }).catch(error => {
+    console.error('Error sending login detection:', error);
   });
 
   // Show minimal notification
@@ -203,9 +290,12 @@ function captureEmailFromInput(email: string): void {
 }
 
 /**
- * Show notification when email is captured from input
+ * Show notification when email is captured from input (when page toasts are
+ * the chosen notification style)
  */
-function showEmailCapturedNotification(domain: string, email: string): void {
+async function showEmailCapturedNotification(domain: string, email: string): Promise<void> {
+  if ((await getNotificationStyle()) !== 'toast') return;
+
   // Create minimal notification element
   const notification = document.createElement('div');
   notification.id = 'email-captured-notification';
@@ -250,10 +340,13 @@ function showEmailCapturedNotification(domain: string, email: string): void {
  * Handle form submissions to detect manual logins
  */
 function handleFormSubmission(event: Event): void {
+  if (!canCapture(true)) return;
+
   const form = event.target as HTMLFormElement;
+  const type = classifyAccountForm(form);
 
-  if (isLoginForm(form)) {
-    console.log('Login form detected and submitted');
+  if (type) {
+    console.log('Account form detected and submitted:', type);
 
     // Extract email from form if possible
     const emailInput = form.querySelector('input[type="email"], input[name*="email"]') as HTMLInputElement;
@@ -262,21 +355,17 @@ function handleFormSubmission(event: Event): void {
       const domain = window.location.hostname;
 
       // Send login detection to background script
-      chrome.runtime.sendMessage({
-        type: 'LOGIN_DETECTED',
-        data: {
-          email: email,
-          website: domain,
-          timestamp: Date.now(),
-          url: window.location.href,
-          method: 'manual'
-        }
-      }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error('Error sending form login detection:', chrome.runtime.lastError);
-        } else {
-          console.log('Form login detection response:', response);
-        }
+      sendMessageToBackground('LOGIN_DETECTED', {
+        email: email,
+        website: domain,
+        timestamp: Date.now(),
+        url: window.location.href,
+        method: 'manual',
+        type
+      }).then(response => {
+        console.log('Form login detection response:', response);
+      }).catch(error => {
+        console.error('Error sending form login detection:', error);
       });
     }
   }
@@ -310,6 +399,42 @@ function isLoginForm(form: HTMLFormElement): boolean {
   return (isLoginAction || (hasEmailField && hasPasswordField));
 }
 
+/**
+ * Classify a submitted form as signup, login, password reset, email change
+ * or logout, or null if it isn't an account form. Field signals win over the
+ * submit button's text, then the form's action and the page URL.
+ */
+function classifyAccountForm(form: HTMLFormElement): AccountEventType | null {
+  const passwordFields = form.querySelectorAll('input[type="password"]');
+  const hasNewPassword = !!form.querySelector('input[autocomplete="new-password"]');
+  const hasCurrentPassword = !!form.querySelector('input[autocomplete="current-password"]');
+  const hasNewEmail = !!form.querySelector('input[name*="new_email" i], input[name*="newEmail" i], input[id*="new-email" i]');
+
+  const submitter = form.querySelector('button[type="submit"], input[type="submit"], button:not([type])') as HTMLElement | null;
+  const submitText = submitter ? (submitter.textContent || (submitter as HTMLInputElement).value || '') : '';
+  const byText = classifyAccountText(submitText);
+  const byUrl = classifyAccountUrl(form.action) || classifyAccountUrl(window.location.href);
+
+  if (hasNewEmail) return 'email_change';
+  if (hasNewPassword && !hasCurrentPassword) {
+    // A new password without the old one: choosing one at signup, or after a reset link
+    return byText === 'password_reset' || byUrl === 'password_reset' ? 'password_reset' : 'signup';
+  }
+  if (passwordFields.length >= 2 && !hasCurrentPassword) return byUrl === 'password_reset' ? 'password_reset' : 'signup';
+  if (byText && byText !== 'login') return byText;
+  if (byUrl && byUrl !== 'login' && passwordFields.length === 0) return byUrl;
+  if (byUrl === 'signup') return 'signup';
+
+  return isLoginForm(form) ? 'login' : null;
+}
+
+/**
+ * The event a detection belongs to: its form's classification, else the page URL's
+ */
+function getAccountEventType(form: HTMLFormElement | null): AccountEventType {
+  return (form && classifyAccountForm(form)) || classifyAccountUrl(window.location.href) || 'login';
+}
+
 /**
  * Check if current page is a login page (enhanced version)
  */
@@ -709,17 +834,8 @@ function extractEmailsFromString(text: string): string[] {
  */
 async function checkForNewAccount(domain: string, email: string): Promise<boolean> {
   try {
-    const response = await chrome.runtime.sendMessage({
-      type: 'CHECK_NEW_ACCOUNT',
-      data: { domain, email }
-    });
-
-    if (chrome.runtime.lastError) {
-      console.error('Error checking for new account:', chrome.runtime.lastError);
-      return false;
-    }
-
-    return response && response.isNew === true;
+    const response = await sendMessageToBackground('CHECK_NEW_ACCOUNT', { domain, email });
+    return response.isNew === true;
   } catch (error) {
     console.error('Error checking for new account:', error);
     return false;
@@ -727,27 +843,27 @@ async function checkForNewAccount(domain: string, email: string): Promise<boolea
 }
 
 /**
- * Show new account notification
+ * Store an account found on the page, and show a toast for it when page
+ * toasts are the chosen notification style
  */
-function showNewAccountNotification(domain: string, email: string): void {
+async function showNewAccountNotification(domain: string, email: string): Promise<void> {
+  if (!canCapture(false)) return;
+
   // Auto-store the email without asking user
-  chrome.runtime.sendMessage({
-    type: 'LOGIN_DETECTED',
-    data: {
-      email: email,
-      website: domain,
-      timestamp: Date.now(),
-      url: window.location.href,
-      method: 'oauth'
-    }
-  }, (response) => {
-    if (chrome.runtime.lastError) {
-      console.error('Error sending OAuth login detection:', chrome.runtime.lastError);
-    } else {
-      console.log('OAuth login detection response:', response);
-    }
+  sendMessageToBackground('LOGIN_DETECTED', {
+    email: email,
+    website: domain,
+    timestamp: Date.now(),
+    url: window.location.href,
+    method: 'oauth'
+  }).then(response => {
+    console.log('OAuth login detection response:', response);
+  }).catch(error => {
+    console.error('Error sending OAuth login detection:', error);
   });
 
+  if ((await getNotificationStyle()) !== 'toast') return;
+
   // Create minimal notification element
   const notification = document.createElement('div');
   notification.id = 'new-account-notification';
@@ -811,12 +927,12 @@ function showNewAccountNotification(domain: string, email: string): void {
 }
 
 /**
- * Escape HTML to prevent XSS
+ * Escape HTML to prevent XSS (quotes too, so it is safe in attribute values)
  */
 function escapeHtml(text: string): string {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
 
 /**
@@ -825,8 +941,8 @@ function escapeHtml(text: string): string {
 function handleBackgroundMessage(
   message: ContentMessage,
   sender: chrome.runtime.MessageSender,
-  sendResponse: (response?: any) => void
-): void {
+  sendResponse: (response: ContentReply) => void
+): boolean {
   switch (message.type) {
     case 'API_CALL_DETECTED':
       // Handle API call data if needed
@@ -834,6 +950,115 @@ function handleBackgroundMessage(
     case 'PAGE_LOADED':
       // Handle page load notification if needed
       break;
+    case 'FILL_CONTEXT_FIELD':
+      sendResponse({ success: fillContextField(message.data.text) });
+      break;
+    case 'READ_CONTEXT_FIELD':
+      sendResponse({ value: readContextField() });
+      break;
+    case 'COPY_TEXT':
+      copyText(message.data.text).then(success => sendResponse({ success }));
+      return true;
+  }
+  return false;
+}
+
+/**
+ * Remember the editable field a context menu was opened on
+ */
+function handleContextMenu(event: MouseEvent): void {
+  const target = event.target instanceof Element ? event.target : null;
+  const field = target?.closest('input, textarea, [contenteditable=""], [contenteditable="true"]');
+  contextField = field instanceof HTMLElement ? field : null;
+}
+
+/**
+ * Read the value of the context menu's field
+ */
+function readContextField(): string | null {
+  if (!contextField || !contextField.isConnected) return null;
+  if (contextField instanceof HTMLInputElement || contextField instanceof HTMLTextAreaElement) {
+    return contextField.value;
+  }
+  return contextField.textContent;
+}
+
+/**
+ * Put text in the context menu's field the way typing would, so the page's
+ * own listeners see the change
+ */
+function fillContextField(text: string): boolean {
+  const field = contextField;
+  if (!field || !field.isConnected) return false;
+
+  return fillField(field, text);
+}
+
+/**
+ * Put text in a field the way typing would, dispatching input and change so
+ * framework-managed forms (React, Vue) register it. Tap-to-capture ignores
+ * the focus and events this causes.
+ */
+function fillField(field: HTMLElement, text: string): boolean {
+  fillingField = true;
+  try {
+    field.focus();
+    if (field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement) {
+      // Use the prototype's setter so frameworks that track the value (React) notice
+      const prototype = field instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+      const setValue = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+      if (setValue) {
+        setValue.call(field, text);
+      } else {
+        field.value = text;
+      }
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+      field.dispatchEvent(new Event('change', { bubbles: true }));
+      return true;
+    }
+
+    // contenteditable: replace its contents as a single edit
+    document.getSelection()?.selectAllChildren(field);
+    return document.execCommand('insertText', false, text);
+  } finally {
+    fillingField = false;
+  }
+}
+
+/**
+ * Find the page's email/username field: the one last focused if it is still
+ * there, otherwise the first visible, editable one
+ */
+function findIdentifierInput(): HTMLInputElement | null {
+  const isFillable = (input: HTMLInputElement) =>
+    input.type !== 'hidden' && input.type !== 'password' && !input.disabled && !input.readOnly
+    && input.getClientRects().length > 0;
+
+  if (lastIdentifierInput && lastIdentifierInput.isConnected && isFillable(lastIdentifierInput)) {
+    return lastIdentifierInput;
+  }
+
+  const inputs = Array.from(document.querySelectorAll<HTMLInputElement>(IDENTIFIER_INPUT_SELECTOR));
+  return inputs.find(isFillable) || null;
+}
+
+/**
+ * Copy text to the clipboard (falls back to a hidden textarea where the
+ * Clipboard API is unavailable or refused)
+ */
+async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.cssText = 'position: fixed; top: -1000px; opacity: 0;';
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = document.execCommand('copy');
+    textarea.remove();
+    return copied;
   }
 }
 
@@ -850,6 +1075,27 @@ function removeExistingBanners(): void {
   notificationBanner = null;
 }
 
+/**
+ * Tell the background when the page confirms a sign-out ("You have been logged out")
+ */
+function checkForSignedOutPage(): void {
+  if (!canCapture(false)) return;
+
+  const headings = Array.from(document.querySelectorAll('h1, h2, [role="alert"], .alert, .notice'))
+    .map(element => element.textContent || '')
+    .join(' ');
+  const text = `${document.title} ${headings}`;
+  if (!SIGNED_OUT_PATTERN.test(text)) return;
+
+  sendMessageToBackground('LOGOUT_DETECTED', { website: window.location.hostname, url: window.location.href })
+    .then(response => {
+      console.log('Signed-out page detected, sessions ended:', response.ended);
+    })
+    .catch(error => {
+      console.error('Error reporting signed-out page:', error);
+    });
+}
+
 /**
  * Check if current page is a login page and show notification banner
  */
@@ -857,32 +1103,160 @@ async function checkForLoginPageAndShowBanner(): Promise<void> {
   // Wait a bit for page to load completely
   await new Promise(resolve => setTimeout(resolve, 1000));
 
+  if (!sitePolicy.banner) {
+    return;
+  }
+
   if (isLoginPage()) {
     console.log('Login page detected, checking for stored emails...');
 
-    try {
-      const domain = window.location.hostname;
-      const response = await chrome.runtime.sendMessage({
-        type: 'GET_EMAIL_MAPPINGS'
-      });
+    const emails = await getStoredEmailsForPage();
+    if (emails.length > 0) {
+      console.log(`Found ${emails.length} emails for domain ${window.location.hostname}, showing banner`);
+      showLoginNotificationBanner(emails);
+    } else {
+      console.log(`No emails found for domain ${window.location.hostname} in storage`);
+    }
+  }
+}
 
-      if (chrome.runtime.lastError) {
-        console.error('Error getting email mappings:', chrome.runtime.lastError);
-        return;
-      }
+/**
+ * Get the stored emails for this page's domain (empty when locked or on error)
+ */
+async function getStoredEmailsForPage(): Promise<BannerEmail[]> {
+  try {
+    // Includes accounts from equivalent domains (e.g. google.com on youtube.com)
+    const response = await sendMessageToBackground('GET_SITE_ACCOUNTS', { hostname: window.location.hostname });
 
-      if (response && response.mappings && response.mappings[domain]) {
-        const emails = response.mappings[domain];
-        if (emails && emails.length > 0) {
-          console.log(`Found ${emails.length} emails for domain ${domain}, showing banner`);
-          showLoginNotificationBanner(emails);
-        }
-      } else {
-        console.log(`No emails found for domain ${domain} in storage`);
-      }
-    } catch (error) {
-      console.error('Error checking for stored emails:', error);
+    if (response.locked) {
+      console.log('Email vault is locked, not showing stored emails');
+      return [];
     }
+
+    const { jars } = await sendMessageToBackground('GET_COOKIE_JARS', { website: window.location.hostname });
+    return response.emails.map(email => ({
+      ...email,
+      switchable: jars.some(jar => jar.email === email.email && !jar.active)
+    }));
+  } catch (error) {
+    console.error('Error checking for stored emails:', error);
+    return [];
+  }
+}
+
+/**
+ * Refresh the open login banner after stored data changed
+ */
+async function handleDataChange(): Promise<void> {
+  if (!notificationBanner || !notificationBanner.isConnected) {
+    return;
+  }
+
+  const emails = await getStoredEmailsForPage();
+  const emailList = notificationBanner?.querySelector('#email-tracker-banner-emails');
+
+  if (emails.length === 0) {
+    notificationBanner?.remove();
+    notificationBanner = null;
+  } else if (emailList) {
+    emailList.innerHTML = renderBannerEmailList(emails);
+  }
+}
+
+/**
+ * Render the most recently used emails (last 2) for the login banner, each a
+ * button that fills the login field, plus a dropdown of every other account
+ */
+function renderBannerEmailList(emails: BannerEmail[]): string {
+  const sortedEmails = [...emails].sort((a, b) => b.timestamp - a.timestamp);
+  const recentEmails = sortedEmails.slice(0, 2);
+
+  const entries = recentEmails.map(email => {
+    const lastUsed = new Date(email.timestamp).toLocaleString();
+    const description = email.description ? ` - ${escapeHtml(email.description)}` : '';
+    const provider = email.provider ? ` <span style="opacity: 0.8;">· ${escapeHtml(getProviderLabel(email.provider))}</span>` : '';
+    const switchButton = email.switchable
+      ? ` <button data-switch-email="${escapeHtml(email.email)}" title="Switch to this account without signing in" style="
+        background: rgba(255,255,255,0.2);
+        border: none;
+        color: white;
+        padding: 2px 8px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 11px;
+      ">⇄ Switch</button>`
+      : '';
+    const fillButton = `<button data-fill-email="${escapeHtml(email.email)}" title="Fill this email into the login form" style="
+        background: none;
+        border: none;
+        color: inherit;
+        padding: 0;
+        font: inherit;
+        text-decoration: underline;
+        cursor: pointer;
+      ">${escapeHtml(email.email)}</button>`;
+    return `${fillButton}${description}${provider} <span style="opacity: 0.8;">(Last: ${lastUsed})</span>${switchButton}`;
+  }).join('<br>');
+
+  if (sortedEmails.length <= recentEmails.length) {
+    return entries;
+  }
+
+  const options = sortedEmails
+    .map(email => {
+      const label = email.description ? `${email.email} - ${email.description}` : email.email;
+      return `<option value="${escapeHtml(email.email)}">${escapeHtml(label)}</option>`;
+    })
+    .join('');
+  return `${entries}
+    <div style="margin-top: 6px;">
+      <select id="email-tracker-other-account" style="
+        font-size: 12px;
+        padding: 2px 4px;
+        border-radius: 4px;
+        border: none;
+        color: #1f2937;
+      ">
+        <option value="">Other account…</option>
+        ${options}
+      </select>
+    </div>`;
+}
+
+/**
+ * Fill an email into the page's login field, saying so in the banner
+ */
+function fillFromBanner(email: string): void {
+  const status = notificationBanner?.querySelector('#email-tracker-banner-status');
+  const input = findIdentifierInput();
+
+  if (!input) {
+    console.log('No email or username field to fill on this page');
+    if (status) status.textContent = 'No email or username field found on this page';
+    return;
+  }
+
+  fillField(input, email);
+  if (status) status.textContent = `Filled ${email}`;
+}
+
+/**
+ * Switch the site to a banner account's saved cookies (the background
+ * reloads the page once they are in place)
+ */
+async function handleBannerSwitch(button: HTMLButtonElement, email: string): Promise<void> {
+  button.disabled = true;
+  button.textContent = 'Switching…';
+
+  try {
+    const response = await sendMessageToBackground('SWITCH_ACCOUNT', { website: window.location.hostname, email });
+    if (!response.success) {
+      console.log('Could not switch account:', response.error);
+      button.textContent = 'Switch failed';
+    }
+  } catch (error) {
+    console.error('Error switching account:', error);
+    button.textContent = 'Switch failed';
   }
 }
 
@@ -890,7 +1264,7 @@ async function checkForLoginPageAndShowBanner(): Promise<void> {
 /**
  * Show notification banner with previously used emails
  */
-function showLoginNotificationBanner(emails: Array<{ email: string; timestamp: number; count: number; description?: string }>): void {
+function showLoginNotificationBanner(emails: BannerEmail[]): void {
   // Remove any existing banners first
   removeExistingBanners();
 
@@ -917,12 +1291,8 @@ function showLoginNotificationBanner(emails: Array<{ email: string; timestamp: n
     font-family: Arial, sans-serif;
   `;
 
-  // Create email list for display
-  const emailList = recentEmails.map(email => {
-    const lastUsed = new Date(email.timestamp).toLocaleString();
-    const description = email.description ? ` - ${escapeHtml(email.description)}` : '';
-    return `${escapeHtml(email.email)}${description} <span style="opacity: 0.8;">(Last: ${lastUsed})</span>`;
-  }).join('<br>');
+  // Create email list for display (the dropdown lists every account)
+  const emailList = renderBannerEmailList(emails);
 
   notificationBanner.innerHTML = `
     <div style="display: flex; align-items: center; justify-content: space-between;">
@@ -933,9 +1303,10 @@ function showLoginNotificationBanner(emails: Array<{ email: string; timestamp: n
         </div>
         <div style="font-size: 13px; opacity: 0.9;">
           Previously used emails for this site:
-          <div style="margin-top: 4px; line-height: 1.4; font-weight: 500;">
+          <div id="email-tracker-banner-emails" style="margin-top: 4px; line-height: 1.4; font-weight: 500;">
             ${emailList}
           </div>
+          <div id="email-tracker-banner-status" style="margin-top: 4px; font-size: 12px; opacity: 0.8;"></div>
         </div>
       </div>
       <button id="close-banner" style="
@@ -951,6 +1322,28 @@ function showLoginNotificationBanner(emails: Array<{ email: string; timestamp: n
     </div>
   `;
 
+  // Entries are re-rendered on data changes, so listen on the list
+  const bannerEmails = notificationBanner.querySelector('#email-tracker-banner-emails');
+  bannerEmails?.addEventListener('click', event => {
+    const target = event.target as HTMLElement;
+    const switchButton = target.closest<HTMLButtonElement>('button[data-switch-email]');
+    const fillButton = target.closest<HTMLButtonElement>('button[data-fill-email]');
+
+    if (switchButton?.dataset.switchEmail) {
+      handleBannerSwitch(switchButton, switchButton.dataset.switchEmail);
+    } else if (fillButton?.dataset.fillEmail) {
+      fillFromBanner(fillButton.dataset.fillEmail);
+    }
+  });
+
+  bannerEmails?.addEventListener('change', event => {
+    const select = event.target;
+    if (select instanceof HTMLSelectElement && select.id === 'email-tracker-other-account' && select.value) {
+      fillFromBanner(select.value);
+      select.value = '';
+    }
+  });
+
   // Add close functionality
   const closeButton = notificationBanner.querySelector('#close-banner');
   closeButton?.addEventListener('click', () => {
@@ -1001,7 +1394,7 @@ function isLoginPage(): boolean {
   const isLoginUrl = loginUrlPatterns.some(pattern => pattern.test(currentUrl));
 
   // Check for login form elements
-  const hasEmailInput = !!document.querySelector('input[type="email"], input[name*="email"]');
+  const hasEmailInput = !!document.querySelector(IDENTIFIER_INPUT_SELECTOR);
   const hasPasswordInput = !!document.querySelector('input[type="password"], input[name*="password"]');
 
   // Check for "Sign in with Google" button and other OAuth providers
@@ -2,10 +2,95 @@
 
 import { EmailMapping, DomainMappings } from '../utils/storage';
 import { SyncService } from '../utils/syncService';
+import { AccountEventType, LoginMethod } from '../types/index';
+import { EvictionReason, EvictionRecord, RetentionPolicy } from '../utils/retention';
+import { VaultStatus } from '../utils/vault';
+import { TrashEntry } from '../utils/trash';
+import { DomainGroup, DomainGroupSettings } from '../utils/domainGroups';
+import { subscribeToDataChanges } from '../utils/changeFeed';
+import {
+  PauseDuration,
+  PauseStatus,
+  SiteRule,
+  findSiteRule,
+  formatPauseRemaining,
+  getPauseStatus,
+  getSitePolicy,
+  matchesSitePattern,
+  subscribeToTrackingSettings
+} from '../utils/trackingSettings';
+import { getRootDomain } from '../utils/domain';
+import { getProviderLabel } from '../utils/identityProviders';
+import { NotificationStyle } from '../utils/notificationSettings';
+import { formatSessionDuration, isSessionOpen, isSessionStale } from '../utils/sessions';
+import { CookieJarSummary } from '../utils/cookieJars';
+import { sendMessageToBackground } from '../utils/messaging';
 
 // Global sync service instance
 const syncService = new SyncService();
 
+// Mappings currently rendered in the domain list (patched on live updates)
+let renderedMappings: DomainMappings = {};
+
+// Saved cookie jars (accounts that can be switched to), as last loaded and as rendered
+let cookieJars: CookieJarSummary[] = [];
+let renderedCookieJars: CookieJarSummary[] = [];
+
+// Bundled and user-defined linked-site groups, as last loaded
+let defaultDomainGroups: DomainGroup[] = [];
+let domainGroupSettings: DomainGroupSettings = { custom: [], disabledDefaults: [] };
+
+// Per-site rules, as last loaded, and the active tab's hostname
+let siteRules: SiteRule[] = [];
+let currentTabHostname: string | null = null;
+
+// Pause state as last loaded, and the timer that keeps its countdown current
+let pauseStatus: PauseStatus = { isPaused: false };
+let pauseCountdownTimer: number | null = null;
+
+// How often the pause countdown on the tracking button is redrawn
+const PAUSE_COUNTDOWN_INTERVAL_MS = 30 * 1000;
+
+// In-flight live refresh, and whether another change arrived meanwhile
+let liveRefresh: Promise<void> | null = null;
+let liveRefreshPending = false;
+
+// Account events shown with the date last seen (signups show as the creation date)
+type LaterAccountEvent = Exclude<AccountEventType, 'login' | 'signup'>;
+
+// Display labels for those account events
+const ACCOUNT_EVENT_LABELS: Record<LaterAccountEvent, string> = {
+  password_reset: 'Password reset',
+  email_change: 'Email changed',
+  logout: 'Signed out'
+};
+
+// Display labels for detection methods
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  oauth_capture: 'OAuth',
+  oauth_redirect: 'OAuth redirect',
+  oauth_flow: 'Sign-in provider',
+  identity_token: 'ID token',
+  request_body: 'Login request',
+  oauth: 'Signed-in page',
+  tap_capture: 'Typed',
+  manual: 'Login form',
+  user_added: 'Added manually',
+  logout_url: 'Logout link',
+  session_cookie: 'Session cookie cleared',
+  signed_out_page: 'Signed-out page'
+};
+
+// How long the undo toast stays up after a destructive action
+const UNDO_TOAST_MS = 8000;
+
+// Display text for retention eviction reasons
+const EVICTION_REASONS: Record<EvictionReason, string> = {
+  expired: 'not used recently',
+  domain_limit: 'too many accounts for the site',
+  global_budget: 'storage limit reached'
+};
+
 /**
  * Popup initialization
  */
@@ -23,9 +108,32 @@ async function initializePopup(): Promise<void> {
   // Load tracking status
   await loadTrackingStatus();
 
+  // Report entries removed by the retention policy
+  await loadEvictionNotice();
+  await loadRetentionSettings();
+  await loadDomainGroups();
+  await loadIdentifierFields();
+  await loadNotificationStyle();
+  await loadSiteRules();
+
+  // Show encryption settings for the vault's current state
+  await loadVaultStatus();
+
+  // List deleted entries that can still be restored
+  await loadTrash();
+
   // Set up event listeners
   setupEventListeners();
 
+  // Show logins detected in other tabs while the popup is open
+  subscribeToDataChanges(handleDataChange);
+
+  // Opened from a notification's "Add description": go straight to that account
+  openRequestedEditForm();
+
+  // Follow pauses ending or changing elsewhere (alarm resume, another window)
+  subscribeToTrackingSettings(settings => updateTrackingButton(getPauseStatus(settings)));
+
   // Initialize sync functionality
   await initializeSync();
 
@@ -46,12 +154,18 @@ async function loadEmailData(): Promise<void> {
     // Get email mappings from background script
     const response = await sendMessageToBackground('GET_EMAIL_MAPPINGS');
 
+    if (response && response.locked) {
+      showVaultLocked();
+      return;
+    }
+
     if (response && response.mappings) {
       const mappings = response.mappings as DomainMappings;
 
       if (Object.keys(mappings).length === 0) {
         showNoData();
       } else {
+        await loadCookieJars();
         displayDomainOrganizedData(mappings);
       }
     } else {
@@ -69,12 +183,15 @@ async function loadEmailData(): Promise<void> {
 function displayDomainOrganizedData(mappings: DomainMappings): void {
   // Update statistics
   updateStatistics(mappings);
+  renderOpenSessions(mappings);
 
   // Create domain-organized list
   const container = document.getElementById('emails-container');
   if (!container) return;
 
   container.innerHTML = '';
+  renderedMappings = mappings;
+  renderedCookieJars = cookieJars;
 
   // Sort domains alphabetically
   const sortedDomains = Object.keys(mappings).sort();
@@ -89,13 +206,141 @@ function displayDomainOrganizedData(mappings: DomainMappings): void {
 }
 
 /**
- * Create domain container element
+ * Coalesce change notifications into one refresh at a time
+ */
+function handleDataChange(): void {
+  if (liveRefresh) {
+    liveRefreshPending = true;
+    return;
+  }
+
+  liveRefresh = refreshEmailData().finally(() => {
+    liveRefresh = null;
+    if (liveRefreshPending) {
+      liveRefreshPending = false;
+      handleDataChange();
+    }
+  });
+}
+
+/**
+ * Re-read mappings after a change and patch the rendered list
+ */
+async function refreshEmailData(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_EMAIL_MAPPINGS');
+    if (!response || response.locked || !response.mappings) {
+      return;
+    }
+
+    await loadCookieJars();
+    patchDomainOrganizedData(response.mappings as DomainMappings);
+    await loadTrash();
+  } catch (error) {
+    console.error('Error refreshing email data:', error);
+  }
+}
+
+/**
+ * Update only the domains that changed since the last render, highlighting
+ * emails that are new or were just used again
+ */
+function patchDomainOrganizedData(mappings: DomainMappings): void {
+  const container = document.getElementById('emails-container');
+  if (!container) return;
+
+  const previous = renderedMappings;
+  const previousJars = renderedCookieJars;
+  renderedMappings = mappings;
+  renderedCookieJars = cookieJars;
+  updateStatistics(mappings);
+  renderOpenSessions(mappings);
+
+  Object.keys(previous).forEach(domain => {
+    if (!mappings[domain]) {
+      findDomainElement(container, domain)?.remove();
+    }
+  });
+
+  Object.keys(mappings).sort().forEach((domain, index) => {
+    const existing = findDomainElement(container, domain);
+    if (existing
+      && JSON.stringify(previous[domain]) === JSON.stringify(mappings[domain])
+      && getCookieJarSignature(previousJars, domain) === getCookieJarSignature(cookieJars, domain)) {
+      return;
+    }
+
+    const domainElement = createDomainElement(domain, mappings[domain]);
+    highlightNewEntries(domainElement, previous[domain] || [], mappings[domain]);
+
+    if (existing) {
+      existing.replaceWith(domainElement);
+    } else {
+      container.insertBefore(domainElement, container.children[index] || null);
+    }
+  });
+
+  // Switch between the list and the empty state unless a form is open
+  if (document.querySelector('.add-form') || isSectionVisible('vault-locked')) {
+    return;
+  }
+  if (Object.keys(mappings).length === 0) {
+    if (!isSectionVisible('no-data')) showNoData();
+  } else if (!isSectionVisible('email-list')) {
+    showEmailList();
+  }
+}
+
+/**
+ * Load which accounts have saved cookies to switch to
+ */
+async function loadCookieJars(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_COOKIE_JARS');
+    cookieJars = response.jars;
+  } catch (error) {
+    console.error('Error loading cookie jars:', error);
+    cookieJars = [];
+  }
+}
+
+/**
+ * What a domain's rendering depends on from the cookie jars
+ */
+function getCookieJarSignature(jars: CookieJarSummary[], domain: string): string {
+  return JSON.stringify(jars.filter(jar => jar.domain === domain).map(jar => [jar.email, jar.active]));
+}
+
+/**
+ * Find the rendered element for a domain
+ */
+function findDomainElement(container: HTMLElement, domain: string): HTMLElement | undefined {
+  return Array.from(container.children).find(
+    child => (child as HTMLElement).dataset.domain === domain
+  ) as HTMLElement | undefined;
+}
+
+/**
+ * Mark emails that were added or logged into since the previous render
  */
+function highlightNewEntries(domainElement: HTMLElement, before: EmailMapping[], after: EmailMapping[]): void {
+  const emailElements = domainElement.querySelectorAll('.email-item');
 
+  after.forEach((email, index) => {
+    const previous = before.find(entry => entry.email === email.email);
+    if (!previous || email.count > previous.count) {
+      emailElements[index]?.classList.add('new-entry');
+    }
+  });
+}
 
+/**
+ * Create domain container element
+ */
 function createDomainElement(domain: string, emails: EmailMapping[]): HTMLElement {
   const domainDiv = document.createElement('div');
   domainDiv.className = 'domain-item';
+  domainDiv.dataset.domain = domain;
 
   const totalLogins = emails.reduce((sum, email) => sum + email.count, 0);
 
@@ -132,16 +377,26 @@ function createEmailElement(domain: string, email: EmailMapping): HTMLElement {
 
   const lastUsed = new Date(email.timestamp).toLocaleString();
   const loginText = email.count === 1 ? 'login' : 'logins';
+  const session = createSessionHtml(email);
+  const created = email.createdAt
+    ? `<div class="email-created">Account created on ${new Date(email.createdAt).toLocaleDateString()}</div>`
+    : '';
 
   emailDiv.innerHTML = `
     <div class="email-info">
       <div class="email-address">${escapeHtml(email.email)}</div>
       ${email.description ? `<div class="email-description">${escapeHtml(email.description)}</div>` : ''}
+      ${created}
+      ${session}
       <div class="email-meta">
-        <span>Last: ${lastUsed}</span> • <span>${email.count} ${loginText}</span>
+        <span>${email.count > 0 ? 'Last login' : 'Last seen'}: ${lastUsed}</span> • <span>${email.count} ${loginText}</span>
       </div>
+      ${createAccountEventsHtml(email)}
+      ${createProvenanceHtml(email)}
     </div>
     <div class="email-controls">
+      ${createSwitchButtonHtml(domain, email)}
+      <button class="email-btn pin${email.pinned ? ' pinned' : ''}" data-domain="${domain}" data-email="${email.email}" data-pinned="${email.pinned ? 'true' : 'false'}" title="${email.pinned ? 'Unpin (allow retention to remove)' : 'Pin (never remove automatically)'}">📌</button>
       <button class="email-btn edit" data-domain="${domain}" data-email="${email.email}" data-description="${escapeHtml(email.description || '')}" title="Edit">✏️</button>
       <button class="email-btn delete" data-domain="${domain}" data-email="${email.email}" title="Delete">×</button>
     </div>
@@ -150,6 +405,138 @@ function createEmailElement(domain: string, email: EmailMapping): HTMLElement {
   return emailDiv;
 }
 
+/**
+ * Render the button that switches the browser to an account's saved cookies
+ * (nothing when none are saved or they are already in use)
+ */
+function createSwitchButtonHtml(domain: string, email: EmailMapping): string {
+  const jar = cookieJars.find(entry => entry.domain === domain && entry.email === email.email);
+  if (!jar || jar.active) {
+    return '';
+  }
+
+  const saved = new Date(jar.timestamp).toLocaleString();
+  return `<button class="email-btn switch" data-domain="${domain}" data-email="${email.email}" title="Switch ${escapeHtml(jar.site)} to this account (sign-in saved ${escapeHtml(saved)})">⇄</button>`;
+}
+
+/**
+ * Render how long an account has been signed in (nothing once signed out)
+ */
+function createSessionHtml(email: EmailMapping): string {
+  if (!email.session || !isSessionOpen(email)) {
+    return '';
+  }
+
+  const since = new Date(email.session.startedAt).toLocaleString();
+  const duration = formatSessionDuration(Date.now() - email.session.startedAt);
+  const stale = isSessionStale(email);
+  return `<div class="session-badge${stale ? ' session-stale' : ''}" title="Signed in since ${escapeHtml(since)}">${stale ? '⚠️ Left signed in' : '● Signed in'} · ${duration}</div>`;
+}
+
+/**
+ * List every signed-in account, longest-open first
+ */
+function renderOpenSessions(mappings: DomainMappings): void {
+  const open = Object.entries(mappings)
+    .flatMap(([domain, emails]) => emails.filter(isSessionOpen).map(email => ({ domain, email })))
+    .sort((a, b) => (a.email.session?.startedAt ?? 0) - (b.email.session?.startedAt ?? 0));
+
+  const count = document.getElementById('open-session-count');
+  if (count) count.textContent = open.length.toString();
+
+  const container = document.getElementById('open-sessions-list');
+  if (!container) return;
+
+  if (open.length === 0) {
+    container.innerHTML = '<p class="hint">No accounts are signed in.</p>';
+    return;
+  }
+
+  container.innerHTML = open.map(({ domain, email }) => {
+    const duration = formatSessionDuration(Date.now() - (email.session?.startedAt ?? Date.now()));
+    const stale = isSessionStale(email);
+    return `
+      <div class="open-session${stale ? ' session-stale' : ''}">
+        <div class="open-session-info">
+          <strong>${stale ? '⚠️ ' : ''}${escapeHtml(domain)}</strong>
+          <small>${escapeHtml(email.email)}</small>
+        </div>
+        <span class="open-session-duration">${duration}</span>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Render when password resets, email changes and sign-outs were last seen
+ * (signups are shown as the creation date)
+ */
+function createAccountEventsHtml(email: EmailMapping): string {
+  const events = Object.entries(email.accountEvents || {})
+    .filter(([type]) => Object.prototype.hasOwnProperty.call(ACCOUNT_EVENT_LABELS, type)) as Array<[LaterAccountEvent, number]>;
+  if (events.length === 0) {
+    return '';
+  }
+
+  const items = events
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, timestamp]) =>
+      `<span class="account-event account-event-${type}">${escapeHtml(ACCOUNT_EVENT_LABELS[type])} ${new Date(timestamp).toLocaleDateString()}</span>`
+    )
+    .join('');
+
+  return `<div class="email-account-events">${items}</div>`;
+}
+
+/**
+ * Render per-method breakdown and source URLs for an email
+ */
+function createProvenanceHtml(email: EmailMapping): string {
+  const methods = Object.entries(email.methods || {}) as Array<[LoginMethod, number]>;
+  if (methods.length === 0 && !email.lastSourceUrl && !email.provider) {
+    return '';
+  }
+
+  const badges = methods
+    .sort((a, b) => b[1] - a[1])
+    .map(([method, count]) =>
+      `<span class="method-badge method-${method}">${escapeHtml(METHOD_LABELS[method] || method)} ×${count}</span>`
+    )
+    .join('');
+
+  const sources: string[] = [];
+  if (email.firstSourceUrl) {
+    sources.push(`<span title="${escapeHtml(email.firstSourceUrl)}">First: ${escapeHtml(getUrlHost(email.firstSourceUrl))}</span>`);
+  }
+  if (email.lastSourceUrl && email.lastSourceUrl !== email.firstSourceUrl) {
+    sources.push(`<span title="${escapeHtml(email.lastSourceUrl)}">Last: ${escapeHtml(getUrlHost(email.lastSourceUrl))}</span>`);
+  }
+
+  const provider = email.provider
+    ? `<span class="provider-badge provider-${email.provider.id}" title="${escapeHtml(email.provider.issuer)}">${escapeHtml(getProviderLabel(email.provider))}</span>`
+    : '';
+
+  return `
+    <div class="email-provenance">
+      ${provider}
+      ${badges}
+      ${sources.length > 0 ? `<div class="email-sources">${sources.join(' • ')}</div>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Get a short host + path label for a source URL
+ */
+function getUrlHost(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname ? `${parsed.hostname}${parsed.pathname}` : url;
+  } catch (error) {
+    return url;
+  }
+}
+
 /**
  * Update statistics display
  */
@@ -172,28 +559,62 @@ function updateStatistics(mappings: DomainMappings): void {
 async function loadTrackingStatus(): Promise<void> {
   try {
     const response = await sendMessageToBackground('GET_TRACKING_STATUS');
-    const isPaused = response && response.isPaused === true;
-
-    updateTrackingButton(isPaused);
+    updateTrackingButton(response || { isPaused: false });
   } catch (error) {
     console.error('Error loading tracking status:', error);
   }
 }
 
 /**
- * Update tracking button based on status
+ * Update tracking button based on status, with the time left on a timed pause
  */
-function updateTrackingButton(isPaused: boolean): void {
+function updateTrackingButton(status: PauseStatus): void {
+  pauseStatus = status;
+
   const toggleButton = document.getElementById('toggle-tracking') as HTMLButtonElement;
   if (toggleButton) {
-    if (isPaused) {
-      toggleButton.textContent = '▶️ Resume Tracking';
+    if (status.isPaused) {
+      toggleButton.textContent = `▶️ Resume Tracking${getPauseSuffix(status)}`;
       toggleButton.classList.add('paused');
     } else {
       toggleButton.textContent = '⏸️ Pause Tracking';
       toggleButton.classList.remove('paused');
     }
   }
+
+  const durationSelect = document.getElementById('pause-duration') as HTMLSelectElement;
+  if (durationSelect) {
+    durationSelect.disabled = status.isPaused;
+  }
+
+  // Redraw the countdown while a timed pause runs
+  if (status.pausedUntil !== undefined && pauseCountdownTimer === null) {
+    pauseCountdownTimer = window.setInterval(refreshPauseCountdown, PAUSE_COUNTDOWN_INTERVAL_MS);
+  } else if (status.pausedUntil === undefined && pauseCountdownTimer !== null) {
+    window.clearInterval(pauseCountdownTimer);
+    pauseCountdownTimer = null;
+  }
+}
+
+/**
+ * How long a pause lasts, for the tracking button (' (12m)', ' (until restart)')
+ */
+function getPauseSuffix(status: PauseStatus): string {
+  const remaining = formatPauseRemaining(status);
+  if (remaining) return ` (${remaining})`;
+  return status.pauseUntilRestart ? ' (until restart)' : '';
+}
+
+/**
+ * Redraw the tracking button as a timed pause counts down
+ */
+function refreshPauseCountdown(): void {
+  if (pauseStatus.pausedUntil !== undefined && Date.now() >= pauseStatus.pausedUntil) {
+    // The background resumes tracking on its alarm; show it as resumed now
+    updateTrackingButton({ isPaused: false });
+    return;
+  }
+  updateTrackingButton(pauseStatus);
 }
 
 /**
@@ -218,6 +639,64 @@ function setupEventListeners(): void {
     toggleButton.addEventListener('click', handleToggleTracking);
   }
 
+  // Save retention settings button
+  const saveRetentionButton = document.getElementById('save-retention');
+  if (saveRetentionButton) {
+    saveRetentionButton.addEventListener('click', handleSaveRetention);
+  }
+
+  // Add linked-site group button
+  const addDomainGroupButton = document.getElementById('add-domain-group');
+  if (addDomainGroupButton) {
+    addDomainGroupButton.addEventListener('click', handleAddDomainGroup);
+  }
+
+  // Save site rule button
+  const saveSiteRuleButton = document.getElementById('save-site-rule');
+  if (saveSiteRuleButton) {
+    saveSiteRuleButton.addEventListener('click', handleSaveSiteRule);
+  }
+
+  // Login request field-name buttons
+  const saveIdentifierFieldsButton = document.getElementById('save-identifier-fields');
+  if (saveIdentifierFieldsButton) {
+    saveIdentifierFieldsButton.addEventListener('click', handleSaveIdentifierFields);
+  }
+  const resetIdentifierFieldsButton = document.getElementById('reset-identifier-fields');
+  if (resetIdentifierFieldsButton) {
+    resetIdentifierFieldsButton.addEventListener('click', handleResetIdentifierFields);
+  }
+
+  // Notification style picker
+  const notificationStyleSelect = document.getElementById('notification-style');
+  if (notificationStyleSelect) {
+    notificationStyleSelect.addEventListener('change', handleNotificationStyleChange);
+  }
+
+  // Empty trash button
+  const emptyTrashButton = document.getElementById('empty-trash');
+  if (emptyTrashButton) {
+    emptyTrashButton.addEventListener('click', handleEmptyTrash);
+  }
+
+  // Vault buttons
+  const vaultHandlers: Array<[string, () => Promise<void> | void]> = [
+    ['vault-unlock', handleUnlockVault],
+    ['vault-use-recovery', toggleRecoveryUnlock],
+    ['vault-enable', handleEnableVault],
+    ['vault-save-auto-lock', handleSaveAutoLock],
+    ['vault-lock', handleLockVault],
+    ['vault-change', handleChangePassphrase],
+    ['vault-export-recovery', handleExportRecoveryKey],
+    ['vault-disable', handleDisableVault]
+  ];
+  vaultHandlers.forEach(([id, handler]) => {
+    const button = document.getElementById(id);
+    if (button) {
+      button.addEventListener('click', handler);
+    }
+  });
+
   // Delegate events for dynamic elements
   document.addEventListener('click', handleDynamicEvents);
 }
@@ -228,6 +707,14 @@ function setupEventListeners(): void {
 function handleDynamicEvents(event: Event): void {
   const target = event.target as HTMLElement;
 
+  // Trash restore buttons (one email or a whole domain)
+  if (target.classList.contains('trash-restore')) {
+    const ids = target.getAttribute('data-ids');
+    if (ids) {
+      handleRestoreTrash(ids.split(','));
+    }
+  }
+
   // Domain add email button
   if (target.classList.contains('domain-btn') && target.classList.contains('add-email')) {
     const domain = target.getAttribute('data-domain');
@@ -270,6 +757,53 @@ function handleDynamicEvents(event: Event): void {
       handleDeleteEmail(domain, email);
     }
   }
+
+  // Email pin button
+  if (target.classList.contains('email-btn') && target.classList.contains('pin')) {
+    const domain = target.getAttribute('data-domain');
+    const email = target.getAttribute('data-email');
+    if (domain && email) {
+      handleTogglePin(domain, email, target.getAttribute('data-pinned') !== 'true');
+    }
+  }
+
+  // Email account switch button
+  if (target.classList.contains('email-btn') && target.classList.contains('switch')) {
+    const domain = target.getAttribute('data-domain');
+    const email = target.getAttribute('data-email');
+    if (domain && email) {
+      handleSwitchAccount(domain, email);
+    }
+  }
+
+  // Eviction notice dismiss button
+  if (target.classList.contains('eviction-dismiss')) {
+    handleDismissEvictions();
+  }
+
+  // Bundled linked-site group checkbox
+  if (target.classList.contains('domain-group-toggle')) {
+    const groupId = target.getAttribute('data-group-id');
+    if (groupId) {
+      handleToggleDefaultGroup(groupId, (target as HTMLInputElement).checked);
+    }
+  }
+
+  // Site rule delete button
+  if (target.classList.contains('site-rule-delete')) {
+    const pattern = target.getAttribute('data-pattern');
+    if (pattern) {
+      handleDeleteSiteRule(pattern);
+    }
+  }
+
+  // User-defined linked-site group delete button
+  if (target.classList.contains('domain-group-delete')) {
+    const groupId = target.getAttribute('data-group-id');
+    if (groupId) {
+      handleDeleteDomainGroup(groupId);
+    }
+  }
 }
 
 /**
@@ -479,6 +1013,7 @@ async function handleEditDomain(): Promise<void> {
     if (response && response.success) {
       // Reload data
       await loadEmailData();
+      showUndoToast(`Renamed ${currentDomain} to ${newDomain}`, response.undoId);
     } else {
       alert('Failed to update domain');
     }
@@ -518,6 +1053,7 @@ async function handleEditEmail(): Promise<void> {
     if (response && response.success) {
       // Reload data
       await loadEmailData();
+      showUndoToast(`Updated ${newEmail}`, response.undoId);
     } else {
       alert('Failed to update email');
     }
@@ -567,15 +1103,13 @@ async function handleAddEmail(): Promise<void> {
  * Handle delete domain
  */
 async function handleDeleteDomain(domain: string): Promise<void> {
-  if (!confirm(`Delete all emails for ${domain}?`)) {
-    return;
-  }
-
   try {
     const response = await sendMessageToBackground('DELETE_DOMAIN', { domain });
 
     if (response && response.success) {
       await loadEmailData();
+      await loadTrash();
+      showUndoToast(`Moved ${domain} to trash`, response.undoId);
     } else {
       alert('Failed to delete domain');
     }
@@ -589,15 +1123,13 @@ async function handleDeleteDomain(domain: string): Promise<void> {
  * Handle delete email
  */
 async function handleDeleteEmail(domain: string, email: string): Promise<void> {
-  if (!confirm(`Delete ${email} from ${domain}?`)) {
-    return;
-  }
-
   try {
     const response = await sendMessageToBackground('DELETE_EMAIL', { domain, email });
 
     if (response && response.success) {
       await loadEmailData();
+      await loadTrash();
+      showUndoToast(`Moved ${email} to trash`, response.undoId);
     } else {
       alert('Failed to delete email');
     }
@@ -608,99 +1140,1001 @@ async function handleDeleteEmail(domain: string, email: string): Promise<void> {
 }
 
 /**
- * Handle toggle tracking button click
+ * Handle pin/unpin of an email
  */
-async function handleToggleTracking(): Promise<void> {
+async function handleTogglePin(domain: string, email: string, pinned: boolean): Promise<void> {
   try {
-    const response = await sendMessageToBackground('TOGGLE_TRACKING');
+    const response = await sendMessageToBackground('PIN_EMAIL', { domain, email, pinned });
 
     if (response && response.success) {
-      const isPaused = response.isPaused;
-      updateTrackingButton(isPaused);
-
-      // Show feedback to user
-      const message = isPaused ? 'Tracking paused' : 'Tracking resumed';
-      showTemporaryMessage(message);
+      await loadEmailData();
     } else {
-      showError('Failed to toggle tracking');
+      alert('Failed to update email');
     }
   } catch (error) {
-    console.error('Error toggling tracking:', error);
-    showError('Failed to toggle tracking');
+    console.error('Error pinning email:', error);
+    alert('Failed to update email');
   }
 }
 
 /**
- * Handle clear data button click
+ * Swap the browser to an account's saved cookies for its site
  */
-async function handleClearData(): Promise<void> {
-  if (!confirm('Are you sure you want to clear all stored email data? This cannot be undone.')) {
-    return;
-  }
-
+async function handleSwitchAccount(domain: string, email: string): Promise<void> {
   try {
-    const response = await sendMessageToBackground('CLEAR_MAPPINGS');
+    const response = await sendMessageToBackground('SWITCH_ACCOUNT', { website: domain, email });
 
     if (response && response.success) {
-      // Reload email data (should show no data now)
-      await loadEmailData();
+      showTemporaryMessage(`Switched ${domain} to ${email}`);
     } else {
-      showError('Failed to clear data');
+      alert(response?.error || 'Failed to switch account');
     }
   } catch (error) {
-    console.error('Error clearing data:', error);
-    showError('Failed to clear data');
+    console.error('Error switching account:', error);
+    alert('Failed to switch account');
   }
 }
 
 /**
- * Show temporary message to user
+ * Show entries removed by the retention policy since the last visit
  */
-function showTemporaryMessage(message: string): void {
-  // Remove existing message
-  const existingMessage = document.querySelector('.temp-message');
-  if (existingMessage) {
-    existingMessage.remove();
-  }
-
-  const messageDiv = document.createElement('div');
-  messageDiv.className = 'temp-message';
-  messageDiv.style.cssText = `
-    position: fixed;
-    top: 10px;
-    right: 10px;
-    background: #10b981;
-    color: white;
-    padding: 8px 16px;
-    border-radius: 4px;
-    font-size: 12px;
-    z-index: 10002;
-    animation: slideInFade 0.3s ease-out;
-  `;
+async function loadEvictionNotice(): Promise<void> {
+  const notice = document.getElementById('eviction-notice');
+  if (!notice) return;
 
-  messageDiv.textContent = message;
+  try {
+    const response = await sendMessageToBackground('GET_EVICTIONS');
+    const evictions: EvictionRecord[] = (response && response.evictions) || [];
 
-  // Add CSS animation
-  const style = document.createElement('style');
-  style.textContent = `
-    @keyframes slideInFade {
-      from { transform: translateX(100%); opacity: 0; }
-      to { transform: translateX(0); opacity: 1; }
+    if (evictions.length === 0) {
+      notice.style.display = 'none';
+      return;
     }
-  `;
-  document.head.appendChild(style);
 
-  document.body.appendChild(messageDiv);
-
-  // Remove after 3 seconds
-  setTimeout(() => {
-    messageDiv.style.animation = 'slideInFade 0.3s ease-out reverse';
-    setTimeout(() => messageDiv.remove(), 300);
-  }, 3000);
+    const items = evictions.slice(0, 5).map(eviction =>
+      `<li>${escapeHtml(eviction.email)} on ${escapeHtml(eviction.domain)} (${EVICTION_REASONS[eviction.reason]})</li>`
+    ).join('');
+    const more = evictions.length > 5 ? `<div>…and ${evictions.length - 5} more</div>` : '';
+
+    notice.innerHTML = `
+      <strong>${evictions.length} saved ${evictions.length === 1 ? 'email was' : 'emails were'} removed by your retention settings</strong>
+      <ul>${items}</ul>
+      ${more}
+      <div>They can be restored from the Trash.</div>
+      <button class="eviction-dismiss">Dismiss</button>
+    `;
+    notice.style.display = 'block';
+  } catch (error) {
+    console.error('Error loading evictions:', error);
+  }
 }
 
-// ==================== SYNC FUNCTIONALITY ====================
-
+/**
+ * Acknowledge the eviction notice
+ */
+async function handleDismissEvictions(): Promise<void> {
+  try {
+    await sendMessageToBackground('CLEAR_EVICTIONS');
+    await loadEvictionNotice();
+  } catch (error) {
+    console.error('Error dismissing evictions:', error);
+  }
+}
+
+/**
+ * Fill the retention settings form
+ */
+async function loadRetentionSettings(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_RETENTION_POLICY');
+    if (!response || !response.policy) return;
+
+    const policy = response.policy as RetentionPolicy;
+    setInputValue('retention-max-accounts', policy.maxAccountsPerDomain.toString());
+    setInputValue('retention-max-age', policy.maxAgeDays.toString());
+    setInputValue('retention-max-total', policy.maxTotalEntries.toString());
+    setInputValue('retention-trash-days', policy.trashDays.toString());
+
+    const protectInput = document.getElementById('retention-protect-described') as HTMLInputElement;
+    if (protectInput) protectInput.checked = policy.protectDescribed;
+  } catch (error) {
+    console.error('Error loading retention settings:', error);
+  }
+}
+
+/**
+ * Save retention settings and apply them immediately
+ */
+async function handleSaveRetention(): Promise<void> {
+  const protectInput = document.getElementById('retention-protect-described') as HTMLInputElement;
+
+  const policy: RetentionPolicy = {
+    maxAccountsPerDomain: readLimitInput('retention-max-accounts'),
+    maxAgeDays: readLimitInput('retention-max-age'),
+    maxTotalEntries: readLimitInput('retention-max-total'),
+    protectDescribed: protectInput ? protectInput.checked : true,
+    trashDays: readLimitInput('retention-trash-days')
+  };
+
+  try {
+    const response = await sendMessageToBackground('SET_RETENTION_POLICY', policy);
+
+    if (response && response.success) {
+      showTemporaryMessage('Retention settings saved');
+      await loadEmailData();
+      await loadEvictionNotice();
+    } else {
+      showError('Failed to save retention settings');
+    }
+  } catch (error) {
+    console.error('Error saving retention settings:', error);
+    showError('Failed to save retention settings');
+  }
+}
+
+/**
+ * Get the hostname of the tab the popup was opened over
+ */
+async function getCurrentTabHostname(): Promise<string | null> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const url = tab?.url ? new URL(tab.url) : null;
+    return url && (url.protocol === 'http:' || url.protocol === 'https:') ? url.hostname : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Load site rules and fill the form with the current tab's settings
+ */
+async function loadSiteRules(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_SITE_RULES');
+    siteRules = response.rules;
+  } catch (error) {
+    console.error('Error loading site rules:', error);
+  }
+
+  currentTabHostname = await getCurrentTabHostname();
+  const current = document.getElementById('site-rule-current');
+  if (current) current.textContent = currentTabHostname || '—';
+
+  if (currentTabHostname) {
+    // Edit the rule that applies to this tab, or start a new one for its site
+    const policy = getSitePolicy(currentTabHostname, siteRules);
+    const applied = findSiteRule(currentTabHostname, siteRules);
+    setInputValue('site-rule-pattern', applied ? applied.pattern : getRootDomain(currentTabHostname));
+    setCheckboxValue('site-rule-tracking', policy.tracking);
+    setCheckboxValue('site-rule-banner', policy.banner);
+    setCheckboxValue('site-rule-forms', policy.formCapture);
+  }
+
+  renderSiteRules();
+}
+
+/**
+ * List every site rule with what it turns off
+ */
+function renderSiteRules(): void {
+  const container = document.getElementById('site-rules-list');
+  if (!container) return;
+
+  container.innerHTML = siteRules.map(rule => {
+    const off = [
+      ...(rule.tracking ? [] : ['tracking']),
+      ...(rule.banner ? [] : ['banner']),
+      ...(rule.formCapture ? [] : ['form capture'])
+    ];
+    const summary = off.length > 0 ? `Off: ${off.join(', ')}` : 'Everything allowed';
+    const isCurrent = currentTabHostname !== null && matchesSitePattern(currentTabHostname, rule.pattern);
+
+    return `
+      <div class="site-rule">
+        <div class="site-rule-info">
+          <strong>${escapeHtml(rule.pattern)}${isCurrent ? ' (this tab)' : ''}</strong>
+          <small>${escapeHtml(summary)}</small>
+        </div>
+        <button class="site-rule-delete" data-pattern="${escapeHtml(rule.pattern)}" title="Remove rule">×</button>
+      </div>
+    `;
+  }).join('');
+}
+
+/**
+ * Save the rule in the form
+ */
+async function handleSaveSiteRule(): Promise<void> {
+  const pattern = getInputValue('site-rule-pattern').trim();
+  if (!pattern) {
+    alert('Enter a domain or pattern');
+    return;
+  }
+
+  const rule: SiteRule = {
+    pattern,
+    tracking: getCheckboxValue('site-rule-tracking'),
+    banner: getCheckboxValue('site-rule-banner'),
+    formCapture: getCheckboxValue('site-rule-forms')
+  };
+
+  try {
+    const response = await sendMessageToBackground('SET_SITE_RULE', rule);
+    if (response.success) {
+      showTemporaryMessage('Site rule saved');
+      await loadSiteRules();
+    } else {
+      showError('Failed to save site rule');
+    }
+  } catch (error) {
+    console.error('Error saving site rule:', error);
+    showError('Failed to save site rule');
+  }
+}
+
+/**
+ * Remove a site rule
+ */
+async function handleDeleteSiteRule(pattern: string): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('REMOVE_SITE_RULE', { pattern });
+    if (response.success) {
+      await loadSiteRules();
+    } else {
+      showError('Failed to remove site rule');
+    }
+  } catch (error) {
+    console.error('Error removing site rule:', error);
+    showError('Failed to remove site rule');
+  }
+}
+
+/**
+ * Load the field names read from login requests
+ */
+async function loadIdentifierFields(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_IDENTIFIER_FIELDS');
+    setInputValue('identifier-fields', response.fields.join(', '));
+  } catch (error) {
+    console.error('Error loading identifier fields:', error);
+  }
+}
+
+/**
+ * Save the field names read from login requests
+ */
+async function handleSaveIdentifierFields(): Promise<void> {
+  const fields = getInputValue('identifier-fields')
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => field);
+  await saveIdentifierFields(fields);
+}
+
+/**
+ * Go back to the default field names
+ */
+async function handleResetIdentifierFields(): Promise<void> {
+  await saveIdentifierFields([]);
+}
+
+async function saveIdentifierFields(fields: string[]): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('SET_IDENTIFIER_FIELDS', { fields });
+    if (response.success) {
+      showTemporaryMessage('Login request fields saved');
+      await loadIdentifierFields();
+    } else {
+      showError('Failed to save login request fields');
+    }
+  } catch (error) {
+    console.error('Error saving identifier fields:', error);
+    showError('Failed to save login request fields');
+  }
+}
+
+/**
+ * Load how detected logins are announced
+ */
+async function loadNotificationStyle(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_NOTIFICATION_STYLE');
+    setInputValue('notification-style', response.style);
+  } catch (error) {
+    console.error('Error loading notification style:', error);
+  }
+}
+
+/**
+ * Save the notification style as soon as it is picked
+ */
+async function handleNotificationStyleChange(): Promise<void> {
+  const style = getInputValue('notification-style') as NotificationStyle;
+  try {
+    const response = await sendMessageToBackground('SET_NOTIFICATION_STYLE', { style });
+    if (response.success) {
+      showTemporaryMessage('Notification setting saved');
+    } else {
+      showError('Failed to save notification setting');
+    }
+  } catch (error) {
+    console.error('Error saving notification style:', error);
+    showError('Failed to save notification setting');
+  }
+}
+
+/**
+ * Open the edit form for the account named in the page URL
+ * (popup.html?editDomain=...&editEmail=...)
+ */
+function openRequestedEditForm(): void {
+  const params = new URLSearchParams(window.location.search);
+  const domain = params.get('editDomain');
+  const email = params.get('editEmail');
+  if (!domain || !email) return;
+
+  const entry = (renderedMappings[domain] || []).find(mapping => mapping.email === email);
+  if (!entry) return;
+
+  showEditEmailForm(domain, email, entry.description);
+  const descriptionInput = document.getElementById('edit-description-input') as HTMLInputElement;
+  descriptionInput?.focus();
+}
+
+/**
+ * Load and render linked-site groups
+ */
+async function loadDomainGroups(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_DOMAIN_GROUPS');
+    defaultDomainGroups = response.defaults;
+    domainGroupSettings = response.settings;
+    renderDomainGroups();
+  } catch (error) {
+    console.error('Error loading domain groups:', error);
+  }
+}
+
+/**
+ * Render the user's groups (removable) followed by the bundled ones (toggleable)
+ */
+function renderDomainGroups(): void {
+  const container = document.getElementById('domain-groups-list');
+  if (!container) return;
+
+  const disabled = new Set(domainGroupSettings.disabledDefaults);
+
+  const customHtml = domainGroupSettings.custom.map(group => `
+    <div class="domain-group">
+      <div class="domain-group-info">
+        <strong>${escapeHtml(group.name)}</strong>
+        <small>${escapeHtml(group.domains.join(', '))}</small>
+      </div>
+      <button class="domain-group-delete" data-group-id="${escapeHtml(group.id)}" title="Remove group">×</button>
+    </div>
+  `).join('');
+
+  const defaultsHtml = defaultDomainGroups.map(group => `
+    <label class="domain-group">
+      <input type="checkbox" class="domain-group-toggle" data-group-id="${escapeHtml(group.id)}"${disabled.has(group.id) ? '' : ' checked'}>
+      <div class="domain-group-info">
+        <strong>${escapeHtml(group.name)}</strong>
+        <small>${escapeHtml(group.domains.join(', '))}</small>
+      </div>
+    </label>
+  `).join('');
+
+  container.innerHTML = customHtml + defaultsHtml;
+}
+
+/**
+ * Save linked-site group settings and re-render
+ */
+async function saveDomainGroups(settings: DomainGroupSettings): Promise<boolean> {
+  try {
+    const response = await sendMessageToBackground('SET_DOMAIN_GROUPS', settings);
+    if (!response.success) {
+      alert('Failed to save linked sites');
+      return false;
+    }
+    await loadDomainGroups();
+    return true;
+  } catch (error) {
+    console.error('Error saving domain groups:', error);
+    alert('Failed to save linked sites');
+    return false;
+  }
+}
+
+/**
+ * Add a user-defined linked-site group from the form
+ */
+async function handleAddDomainGroup(): Promise<void> {
+  const name = getInputValue('domain-group-name').trim();
+  const domains = getInputValue('domain-group-domains')
+    .split(',')
+    .map(domain => domain.trim())
+    .filter(domain => domain);
+
+  if (!name || domains.length < 2) {
+    alert('Enter a group name and at least two sites');
+    return;
+  }
+
+  const group: DomainGroup = { id: crypto.randomUUID(), name, domains };
+  const saved = await saveDomainGroups({
+    ...domainGroupSettings,
+    custom: [...domainGroupSettings.custom, group]
+  });
+
+  if (saved) {
+    setInputValue('domain-group-name', '');
+    setInputValue('domain-group-domains', '');
+    showTemporaryMessage('Linked sites saved');
+  }
+}
+
+/**
+ * Turn a bundled group on or off
+ */
+async function handleToggleDefaultGroup(groupId: string, enabled: boolean): Promise<void> {
+  const disabled = domainGroupSettings.disabledDefaults.filter(id => id !== groupId);
+  await saveDomainGroups({
+    ...domainGroupSettings,
+    disabledDefaults: enabled ? disabled : [...disabled, groupId]
+  });
+}
+
+/**
+ * Remove a user-defined group
+ */
+async function handleDeleteDomainGroup(groupId: string): Promise<void> {
+  await saveDomainGroups({
+    ...domainGroupSettings,
+    custom: domainGroupSettings.custom.filter(group => group.id !== groupId)
+  });
+}
+
+/**
+ * Read a non-negative integer limit from an input (0 when empty or invalid)
+ */
+function readLimitInput(id: string): number {
+  const input = document.getElementById(id) as HTMLInputElement;
+  const value = input ? parseInt(input.value, 10) : 0;
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Set the value of an input by id
+ */
+function setInputValue(id: string, value: string): void {
+  const input = document.getElementById(id) as HTMLInputElement;
+  if (input) input.value = value;
+}
+
+/**
+ * Set whether a checkbox is checked by id
+ */
+function setCheckboxValue(id: string, checked: boolean): void {
+  const input = document.getElementById(id) as HTMLInputElement;
+  if (input) input.checked = checked;
+}
+
+/**
+ * Show the setup or manage view of the encryption settings
+ */
+async function loadVaultStatus(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('GET_VAULT_STATUS');
+    if (!response || !response.vault) return;
+
+    const vault = response.vault as VaultStatus;
+    const setup = document.getElementById('vault-setup');
+    const manage = document.getElementById('vault-manage');
+    if (setup) setup.style.display = vault.enabled ? 'none' : 'block';
+    if (manage) manage.style.display = vault.enabled ? 'block' : 'none';
+
+    setInputValue('vault-auto-lock', vault.autoLockMinutes.toString());
+    setInputValue('vault-auto-lock-current', vault.autoLockMinutes.toString());
+
+    const pending = document.getElementById('vault-pending');
+    if (pending) {
+      pending.textContent = vault.pendingLogins > 0
+        ? `${vault.pendingLogins} login${vault.pendingLogins === 1 ? '' : 's'} detected while locked will be saved when you unlock.`
+        : '';
+    }
+  } catch (error) {
+    console.error('Error loading vault status:', error);
+  }
+}
+
+/**
+ * Show the unlock prompt in place of the email list
+ */
+function showVaultLocked(): void {
+  hideAllSections();
+  const lockedElement = document.getElementById('vault-locked');
+  if (lockedElement) {
+    lockedElement.style.display = 'block';
+  }
+}
+
+/**
+ * Switch the unlock prompt between passphrase and recovery key
+ */
+function toggleRecoveryUnlock(): void {
+  const label = document.getElementById('vault-unlock-label');
+  const toggle = document.getElementById('vault-use-recovery');
+  const input = document.getElementById('vault-unlock-input') as HTMLInputElement;
+  if (!label || !toggle || !input) return;
+
+  const useRecovery = input.dataset.mode !== 'recovery';
+  input.dataset.mode = useRecovery ? 'recovery' : 'passphrase';
+  input.type = useRecovery ? 'text' : 'password';
+  input.value = '';
+  label.textContent = useRecovery ? 'Recovery key' : 'Passphrase';
+  toggle.textContent = useRecovery ? 'Use passphrase' : 'Use recovery key';
+}
+
+/**
+ * Unlock the vault. Unlocking with the recovery key asks for a new passphrase.
+ */
+async function handleUnlockVault(): Promise<void> {
+  const input = document.getElementById('vault-unlock-input') as HTMLInputElement;
+  if (!input || !input.value) return;
+
+  const useRecovery = input.dataset.mode === 'recovery';
+  const credentials = useRecovery ? { recoveryKey: input.value.trim() } : { passphrase: input.value };
+
+  try {
+    const response = await sendMessageToBackground('UNLOCK_VAULT', credentials);
+
+    if (!response || !response.success) {
+      alert(response?.error || 'Failed to unlock');
+      return;
+    }
+
+    input.value = '';
+    if (useRecovery) {
+      toggleRecoveryUnlock();
+      const newPassphrase = prompt('Choose a new passphrase for your encrypted emails:');
+      if (newPassphrase && isStrongPassphrase(newPassphrase)) {
+        const changed = await sendMessageToBackground('CHANGE_VAULT_PASSPHRASE', { ...credentials, newPassphrase });
+        showTemporaryMessage(changed && changed.success ? 'Passphrase changed' : 'Passphrase not changed');
+      }
+    }
+
+    if (response.replayed > 0) {
+      showTemporaryMessage(`Saved ${response.replayed} login${response.replayed === 1 ? '' : 's'} detected while locked`);
+    }
+    await loadEmailData();
+    await loadVaultStatus();
+  } catch (error) {
+    console.error('Error unlocking vault:', error);
+    alert('Failed to unlock');
+  }
+}
+
+/**
+ * Encrypt stored emails under a new passphrase
+ */
+async function handleEnableVault(): Promise<void> {
+  const passphrase = getInputValue('vault-new-passphrase');
+  const confirmation = getInputValue('vault-confirm-passphrase');
+
+  if (!isStrongPassphrase(passphrase)) return;
+  if (passphrase !== confirmation) {
+    alert('Passphrases do not match');
+    return;
+  }
+
+  try {
+    const response = await sendMessageToBackground('ENABLE_VAULT', {
+      passphrase,
+      autoLockMinutes: readLimitInput('vault-auto-lock')
+    });
+
+    if (response && response.success && response.recoveryKey) {
+      setInputValue('vault-new-passphrase', '');
+      setInputValue('vault-confirm-passphrase', '');
+      showRecoveryKey(response.recoveryKey);
+      showTemporaryMessage('Encryption enabled');
+      await loadVaultStatus();
+    } else {
+      alert(response?.error || 'Failed to enable encryption');
+    }
+  } catch (error) {
+    console.error('Error enabling vault:', error);
+    alert('Failed to enable encryption');
+  }
+}
+
+/**
+ * Save the auto-lock timeout
+ */
+async function handleSaveAutoLock(): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('SET_AUTO_LOCK', {
+      autoLockMinutes: readLimitInput('vault-auto-lock-current')
+    });
+    showTemporaryMessage(response && response.success ? 'Auto-lock saved' : 'Failed to save auto-lock');
+  } catch (error) {
+    console.error('Error saving auto-lock:', error);
+  }
+}
+
+/**
+ * Lock the vault right away
+ */
+async function handleLockVault(): Promise<void> {
+  try {
+    await sendMessageToBackground('LOCK_VAULT');
+    await loadEmailData();
+    await loadVaultStatus();
+  } catch (error) {
+    console.error('Error locking vault:', error);
+  }
+}
+
+/**
+ * Change the vault passphrase
+ */
+async function handleChangePassphrase(): Promise<void> {
+  const passphrase = getInputValue('vault-current-passphrase');
+  const newPassphrase = getInputValue('vault-change-passphrase');
+  if (!passphrase || !isStrongPassphrase(newPassphrase)) return;
+
+  try {
+    const response = await sendMessageToBackground('CHANGE_VAULT_PASSPHRASE', { passphrase, newPassphrase });
+
+    if (response && response.success) {
+      setInputValue('vault-current-passphrase', '');
+      setInputValue('vault-change-passphrase', '');
+      showTemporaryMessage('Passphrase changed');
+    } else {
+      alert(response?.error || 'Failed to change passphrase');
+    }
+  } catch (error) {
+    console.error('Error changing passphrase:', error);
+    alert('Failed to change passphrase');
+  }
+}
+
+/**
+ * Issue a new recovery key (confirmed with the current passphrase)
+ */
+async function handleExportRecoveryKey(): Promise<void> {
+  const passphrase = getInputValue('vault-current-passphrase');
+  if (!passphrase) {
+    alert('Enter your current passphrase first');
+    return;
+  }
+  if (!confirm('Create a new recovery key? Your previous recovery key will stop working.')) {
+    return;
+  }
+
+  try {
+    const response = await sendMessageToBackground('EXPORT_RECOVERY_KEY', { passphrase });
+
+    if (response && response.success && response.recoveryKey) {
+      setInputValue('vault-current-passphrase', '');
+      showRecoveryKey(response.recoveryKey);
+    } else {
+      alert(response?.error || 'Failed to create recovery key');
+    }
+  } catch (error) {
+    console.error('Error exporting recovery key:', error);
+    alert('Failed to create recovery key');
+  }
+}
+
+/**
+ * Decrypt stored emails and turn encryption off
+ */
+async function handleDisableVault(): Promise<void> {
+  const passphrase = getInputValue('vault-current-passphrase');
+  if (!passphrase) {
+    alert('Enter your current passphrase first');
+    return;
+  }
+  if (!confirm('Turn off encryption? Your saved emails will be stored unencrypted.')) {
+    return;
+  }
+
+  try {
+    const response = await sendMessageToBackground('DISABLE_VAULT', { passphrase });
+
+    if (response && response.success) {
+      setInputValue('vault-current-passphrase', '');
+      showTemporaryMessage('Encryption turned off');
+      await loadVaultStatus();
+    } else {
+      alert(response?.error || 'Failed to turn off encryption');
+    }
+  } catch (error) {
+    console.error('Error disabling vault:', error);
+    alert('Failed to turn off encryption');
+  }
+}
+
+/**
+ * Show a newly issued recovery key with a download link
+ */
+function showRecoveryKey(recoveryKey: string): void {
+  const container = document.getElementById('vault-recovery-key');
+  if (!container || !recoveryKey) return;
+
+  const file = new Blob([
+    `Email Tracker recovery key\n\n${recoveryKey}\n\nUse this key to unlock your saved emails if you forget your passphrase.\n`
+  ], { type: 'text/plain' });
+
+  container.innerHTML = `
+    <strong>Save your recovery key</strong>
+    <div>It is the only way back in if you forget your passphrase, and it will not be shown again.</div>
+    <code>${escapeHtml(recoveryKey)}</code>
+    <a class="form-btn save" download="email-tracker-recovery-key.txt" href="${URL.createObjectURL(file)}">Download</a>
+    <button class="form-btn cancel" id="vault-recovery-dismiss">I saved it</button>
+  `;
+  container.style.display = 'block';
+
+  document.getElementById('vault-recovery-dismiss')?.addEventListener('click', () => {
+    container.innerHTML = '';
+    container.style.display = 'none';
+  });
+}
+
+/**
+ * Check a new passphrase is long enough (alerts when it is not)
+ */
+function isStrongPassphrase(passphrase: string): boolean {
+  if (passphrase.length < 8) {
+    alert('Passphrase must be at least 8 characters');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the value of an input by id
+ */
+function getInputValue(id: string): string {
+  const input = document.getElementById(id) as HTMLInputElement;
+  return input ? input.value : '';
+}
+
+/**
+ * Get whether a checkbox is checked by id
+ */
+function getCheckboxValue(id: string): boolean {
+  const input = document.getElementById(id) as HTMLInputElement;
+  return input ? input.checked : false;
+}
+
+/**
+ * Handle toggle tracking button click
+ */
+async function handleToggleTracking(): Promise<void> {
+  try {
+    const durationSelect = document.getElementById('pause-duration') as HTMLSelectElement;
+    const duration = (durationSelect?.value || 'indefinite') as PauseDuration;
+    const response = await sendMessageToBackground('TOGGLE_TRACKING', { duration });
+
+    if (response && response.success) {
+      updateTrackingButton(response);
+
+      // Show feedback to user
+      const message = response.isPaused ? `Tracking paused${getPauseSuffix(response)}` : 'Tracking resumed';
+      showTemporaryMessage(message);
+    } else {
+      showError('Failed to toggle tracking');
+    }
+  } catch (error) {
+    console.error('Error toggling tracking:', error);
+    showError('Failed to toggle tracking');
+  }
+}
+
+/**
+ * Show a toast with an undo button after a destructive action
+ */
+function showUndoToast(message: string, undoId?: string): void {
+  if (!undoId) {
+    showTemporaryMessage(message);
+    return;
+  }
+
+  document.querySelector('.undo-toast')?.remove();
+
+  const toast = document.createElement('div');
+  toast.className = 'undo-toast';
+  toast.innerHTML = `
+    <span>${escapeHtml(message)}</span>
+    <button class="undo-btn">Undo</button>
+  `;
+  document.body.appendChild(toast);
+
+  const timeout = setTimeout(() => toast.remove(), UNDO_TOAST_MS);
+
+  toast.querySelector('.undo-btn')?.addEventListener('click', async () => {
+    clearTimeout(timeout);
+    toast.remove();
+
+    try {
+      const response = await sendMessageToBackground('UNDO', { undoId });
+      if (response && response.success) {
+        await loadEmailData();
+        await loadTrash();
+        showTemporaryMessage('Undone');
+      } else {
+        alert(response?.error || 'Failed to undo');
+      }
+    } catch (error) {
+      console.error('Error undoing action:', error);
+      alert('Failed to undo');
+    }
+  });
+}
+
+/**
+ * Render the trash, grouped by domain
+ */
+async function loadTrash(): Promise<void> {
+  const panel = document.getElementById('trash-panel');
+  const container = document.getElementById('trash-container');
+  if (!panel || !container) return;
+
+  try {
+    const response = await sendMessageToBackground('GET_TRASH');
+    const entries: TrashEntry[] = (response && response.entries) || [];
+
+    const summary = panel.querySelector('summary');
+    if (summary) summary.textContent = `🗑️ Trash (${entries.length})`;
+
+    if (entries.length === 0) {
+      container.innerHTML = '<p class="hint">Trash is empty.</p>';
+      return;
+    }
+
+    const byDomain = new Map<string, TrashEntry[]>();
+    entries.forEach(entry => {
+      byDomain.set(entry.domain, [...(byDomain.get(entry.domain) || []), entry]);
+    });
+
+    container.innerHTML = Array.from(byDomain.entries()).map(([domain, domainEntries]) => `
+      <div class="trash-domain">
+        <div class="trash-domain-header">
+          <span class="domain-name">${escapeHtml(domain)}</span>
+          <button class="trash-restore" data-ids="${domainEntries.map(entry => entry.id).join(',')}">Restore all</button>
+        </div>
+        ${domainEntries.map(entry => `
+          <div class="trash-entry">
+            <span>${escapeHtml(entry.mapping.email)}</span>
+            <small>deleted ${new Date(entry.deletedAt).toLocaleDateString()}</small>
+            <button class="trash-restore" data-ids="${entry.id}">Restore</button>
+          </div>
+        `).join('')}
+      </div>
+    `).join('');
+  } catch (error) {
+    console.error('Error loading trash:', error);
+  }
+}
+
+/**
+ * Restore trash items by id
+ */
+async function handleRestoreTrash(ids: string[]): Promise<void> {
+  try {
+    const response = await sendMessageToBackground('RESTORE_TRASH', { ids });
+
+    if (response && response.success) {
+      await loadEmailData();
+      await loadTrash();
+      showTemporaryMessage('Restored');
+    } else {
+      alert(response?.error || 'Failed to restore');
+    }
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    alert('Failed to restore');
+  }
+}
+
+/**
+ * Permanently delete everything in the trash
+ */
+async function handleEmptyTrash(): Promise<void> {
+  if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) {
+    return;
+  }
+
+  try {
+    const response = await sendMessageToBackground('EMPTY_TRASH');
+    if (response && response.success) {
+      await loadTrash();
+    } else {
+      alert('Failed to empty trash');
+    }
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    alert('Failed to empty trash');
+  }
+}
+
+/**
+ * Handle clear data button click
+ */
+async function handleClearData(): Promise<void> {
+  if (!confirm('Move all stored email data to the trash?')) {
+    return;
+  }
+
+  try {
+    const response = await sendMessageToBackground('CLEAR_MAPPINGS');
+
+    if (response && response.success) {
+      // Reload email data (should show no data now)
+      await loadEmailData();
+      await loadTrash();
+      showUndoToast('All data moved to trash', response.undoId);
+    } else {
+      showError('Failed to clear data');
+    }
+  } catch (error) {
+    console.error('Error clearing data:', error);
+    showError('Failed to clear data');
+  }
+}
+
+/**
+ * Show temporary message to user
+ */
+function showTemporaryMessage(message: string): void {
+  // Remove existing message
+  const existingMessage = document.querySelector('.temp-message');
+  if (existingMessage) {
+    existingMessage.remove();
+  }
+
+  const messageDiv = document.createElement('div');
+  messageDiv.className = 'temp-message';
+  messageDiv.style.cssText = `
+    position: fixed;
+    top: 10px;
+    right: 10px;
+    background: #10b981;
+    color: white;
+    padding: 8px 16px;
+    border-radius: 4px;
+    font-size: 12px;
+    z-index: 10002;
+    animation: slideInFade 0.3s ease-out;
+  `;
+
+  messageDiv.textContent = message;
+
+  // Add CSS animation
+  const style = document.createElement('style');
+  style.textContent = `
+    @keyframes slideInFade {
+      from { transform: translateX(100%); opacity: 0; }
+      to { transform: translateX(0); opacity: 1; }
+    }
+  `;
+  document.head.appendChild(style);
+
+  document.body.appendChild(messageDiv);
+
+  // Remove after 3 seconds
+  setTimeout(() => {
+    messageDiv.style.animation = 'slideInFade 0.3s ease-out reverse';
+    setTimeout(() => messageDiv.remove(), 300);
+  }, 3000);
+}
+
+// ==================== SYNC FUNCTIONALITY ====================
+
 /**
  * Initialize sync functionality
  */
@@ -839,21 +2273,6 @@ async function handleSyncClick(): Promise<void> {
   }
 }
 
-/**
- * Send message to background script
- */
-function sendMessageToBackground(type: string, data?: any): Promise<any> {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage({ type, data }, (response) => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message));
-      } else {
-        resolve(response);
-      }
-    });
-  });
-}
-
 /**
  * Validate email address
  */
@@ -916,11 +2335,19 @@ function showError(message: string): void {
   }
 }
 
+/**
+ * Whether a main section is currently shown
+ */
+function isSectionVisible(id: string): boolean {
+  const element = document.getElementById(id);
+  return !!element && element.style.display === 'block';
+}
+
 /**
  * Hide all main sections
  */
 function hideAllSections(): void {
-  const sections = ['loading', 'no-data', 'email-list'];
+  const sections = ['loading', 'no-data', 'email-list', 'vault-locked'];
   sections.forEach(id => {
     const element = document.getElementById(id);
     if (element) {
@@ -967,10 +2394,10 @@ async function showDebugInfo(): Promise<void> {
 }
 
 /**
- * Escape HTML to prevent XSS
+ * Escape HTML to prevent XSS (quotes too, so it is safe in attribute values)
  */
 function escapeHtml(text: string): string {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
\ No newline at end of file
@@ -1,17 +1,125 @@
 // Types for the Login Tracker Extension
 
+import { DomainMappings, EmailMapping, MutationResult, VaultSetupResult } from '../utils/storage';
+import { EvictionRecord, RetentionPolicy } from '../utils/retention';
+import { TrashEntry } from '../utils/trash';
+import { VaultStatus } from '../utils/vault';
+import { DomainGroup, DomainGroupSettings } from '../utils/domainGroups';
+import { PauseDuration, PauseStatus, SitePolicy, SiteRule } from '../utils/trackingSettings';
+import { NotificationStyle } from '../utils/notificationSettings';
+import { CookieJarSummary } from '../utils/cookieJars';
+
+/**
+ * Which detector produced a login
+ */
+export type LoginMethod =
+  | 'oauth_capture'
+  | 'tap_capture'
+  | 'manual'
+  | 'oauth'
+  | 'oauth_redirect'
+  | 'oauth_flow'
+  | 'identity_token'
+  | 'request_body'
+  | 'user_added'
+  // Logout detectors
+  | 'logout_url'
+  | 'session_cookie'
+  | 'signed_out_page';
+
+/**
+ * What a detected account event was. Events recorded before classification
+ * have no type and count as logins.
+ */
+export type AccountEventType = 'signup' | 'login' | 'password_reset' | 'email_change' | 'logout';
+
+/**
+ * A sign-in session: from the first login after a logout until the next
+ * logout (endedAt is absent while it is open)
+ */
+export interface AccountSession {
+  startedAt: number;
+  endedAt?: number;
+}
+
+/**
+ * Number of detections per method
+ */
+export type LoginMethodCounts = Partial<Record<LoginMethod, number>>;
+
+/**
+ * When each kind of account event was last seen
+ */
+export type AccountEventTimes = Partial<Record<AccountEventType, number>>;
+
+/**
+ * Identity providers recognised by the OAuth flow tracker ('oidc' and 'saml'
+ * are any other OpenID Connect or SAML provider)
+ */
+export type IdentityProviderId = 'google' | 'github' | 'microsoft' | 'apple' | 'facebook' | 'oidc' | 'saml';
+
+/**
+ * The "Sign in with ..." provider a login went through
+ */
+export interface IdentityProviderLogin {
+  id: IdentityProviderId;
+  // Authorization server host (or token issuer), shown for generic providers
+  issuer: string;
+  // Provider's stable account id (id_token `sub`, SAML NameID)
+  subject?: string;
+}
+
 export interface LoginData {
   email: string;
   website: string;
   timestamp: number;
   url: string;
-  method?: 'oauth' | 'manual';
+  method?: LoginMethod;
+  type?: AccountEventType;
 }
 
 export interface WebsiteLoginHistory {
   [website: string]: LoginData[];
 }
 
+/**
+ * Browser tab a login was detected in
+ */
+export interface LoginTabContext {
+  tabId?: number;
+  windowId?: number;
+  frameId?: number;
+  title?: string;
+  incognito?: boolean;
+}
+
+/**
+ * A single login, as recorded in the append-only event log
+ */
+export interface LoginEvent {
+  id: string;
+  timestamp: number;
+  domain: string;
+  email: string;
+  url: string;
+  method?: LoginMethod;
+  type?: AccountEventType;
+  tab?: LoginTabContext;
+  provider?: IdentityProviderLogin;
+}
+
+/**
+ * Filter for querying the login event log
+ */
+export interface LoginEventQuery {
+  domain?: string;
+  email?: string;
+  type?: AccountEventType;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
 export interface APICallData {
   url: string;
   method: string;
@@ -25,12 +133,102 @@ export interface Message {
   data?: any;
 }
 
-export interface BackgroundMessage extends Message {
-  type: 'LOGIN_DETECTED' | 'GET_HISTORY' | 'CLEAR_HISTORY';
-  data?: LoginData | string;
+/**
+ * Credentials accepted by vault operations (either one unlocks)
+ */
+export interface VaultCredentials {
+  passphrase?: string;
+  recoveryKey?: string;
+}
+
+/**
+ * Request and response of every message the background script handles
+ */
+export interface BackgroundRequestMap {
+  GET_EMAIL_MAPPINGS: { request: undefined; response: { mappings: DomainMappings; locked?: boolean } };
+  CLEAR_MAPPINGS: { request: undefined; response: MutationResult };
+  LOGIN_DETECTED: { request: LoginData; response: MutationResult };
+  LOGOUT_DETECTED: { request: { website: string; url: string }; response: { ended: number } };
+  GET_LOGIN_EVENTS: { request: LoginEventQuery | undefined; response: { events: LoginEvent[] } };
+  ADD_EMAIL: { request: { domain: string; email: string }; response: MutationResult };
+  DELETE_EMAIL: { request: { domain: string; email: string }; response: MutationResult };
+  DELETE_DOMAIN: { request: { domain: string }; response: MutationResult };
+  EDIT_DOMAIN: { request: { oldDomain: string; newDomain: string }; response: MutationResult };
+  EDIT_EMAIL: {
+    request: { domain: string; oldEmail: string; newEmail: string; description?: string };
+    response: MutationResult;
+  };
+  GET_SITE_ACCOUNTS: { request: { hostname: string }; response: { emails: EmailMapping[]; locked?: boolean } };
+  CHECK_NEW_ACCOUNT: { request: { domain: string; email: string }; response: { isNew: boolean } };
+  GET_COOKIE_JARS: {
+    request: { website?: string } | undefined;
+    response: { jars: CookieJarSummary[]; locked?: boolean };
+  };
+  SWITCH_ACCOUNT: { request: { website: string; email: string }; response: MutationResult };
+  GET_DOMAIN_GROUPS: { request: undefined; response: { defaults: DomainGroup[]; settings: DomainGroupSettings } };
+  SET_DOMAIN_GROUPS: { request: DomainGroupSettings; response: { success: boolean } };
+  GET_IDENTIFIER_FIELDS: { request: undefined; response: { fields: string[]; defaults: string[] } };
+  SET_IDENTIFIER_FIELDS: { request: { fields: string[] }; response: { success: boolean } };
+  GET_NOTIFICATION_STYLE: { request: undefined; response: { style: NotificationStyle } };
+  SET_NOTIFICATION_STYLE: { request: { style: NotificationStyle }; response: { success: boolean } };
+  GET_TRACKING_STATUS: { request: undefined; response: PauseStatus };
+  TOGGLE_TRACKING: { request: { duration?: PauseDuration } | undefined; response: { success: boolean } & PauseStatus };
+  GET_SITE_POLICY: { request: { hostname: string }; response: { policy: SitePolicy; isPaused: boolean } };
+  GET_SITE_RULES: { request: undefined; response: { rules: SiteRule[] } };
+  SET_SITE_RULE: { request: SiteRule; response: { success: boolean } };
+  REMOVE_SITE_RULE: { request: { pattern: string }; response: { success: boolean } };
+  PIN_EMAIL: { request: { domain: string; email: string; pinned: boolean }; response: MutationResult };
+  GET_RETENTION_POLICY: { request: undefined; response: { policy: RetentionPolicy } };
+  SET_RETENTION_POLICY: { request: RetentionPolicy; response: { success: boolean; evicted: EvictionRecord[] } };
+  GET_EVICTIONS: { request: undefined; response: { evictions: EvictionRecord[] } };
+  CLEAR_EVICTIONS: { request: undefined; response: { success: boolean } };
+  UNDO: { request: { undoId: string }; response: MutationResult };
+  GET_TRASH: { request: undefined; response: { entries: TrashEntry[] } };
+  RESTORE_TRASH: { request: { ids: string[] }; response: MutationResult };
+  EMPTY_TRASH: { request: undefined; response: { success: boolean } };
+  GET_VAULT_STATUS: { request: undefined; response: { vault: VaultStatus } };
+  ENABLE_VAULT: { request: { passphrase: string; autoLockMinutes: number }; response: VaultSetupResult };
+  DISABLE_VAULT: { request: { passphrase: string }; response: MutationResult };
+  UNLOCK_VAULT: { request: VaultCredentials; response: MutationResult & { replayed: number } };
+  LOCK_VAULT: { request: undefined; response: { success: boolean } };
+  CHANGE_VAULT_PASSPHRASE: { request: VaultCredentials & { newPassphrase: string }; response: MutationResult };
+  EXPORT_RECOVERY_KEY: { request: { passphrase: string }; response: VaultSetupResult };
+  SET_AUTO_LOCK: { request: { autoLockMinutes: number }; response: { success: boolean } };
 }
 
-export interface ContentMessage extends Message {
-  type: 'API_CALL_DETECTED' | 'PAGE_LOADED';
-  data?: APICallData;
-}
\ No newline at end of file
+export type BackgroundMessageType = keyof BackgroundRequestMap;
+
+export type MessageRequest<K extends BackgroundMessageType> = BackgroundRequestMap[K]['request'];
+
+export type MessageResponse<K extends BackgroundMessageType> = BackgroundRequestMap[K]['response'];
+
+/**
+ * Any message sent to the background script, discriminated by `type`
+ */
+export type BackgroundMessage = {
+  [K in BackgroundMessageType]: { type: K; data: MessageRequest<K> };
+}[BackgroundMessageType];
+
+/**
+ * What the background router sends back: the handler's response, or why it failed
+ */
+export type MessageReply<K extends BackgroundMessageType> =
+  | { ok: true; response: MessageResponse<K> }
+  | { ok: false; error: string };
+
+/**
+ * Any message the background sends to a content script, discriminated by `type`.
+ * The *_CONTEXT_FIELD messages act on the field the context menu was opened on.
+ */
+export type ContentMessage =
+  | { type: 'API_CALL_DETECTED'; data?: APICallData }
+  | { type: 'PAGE_LOADED' }
+  | { type: 'FILL_CONTEXT_FIELD'; data: { text: string } }
+  | { type: 'READ_CONTEXT_FIELD' }
+  | { type: 'COPY_TEXT'; data: { text: string } };
+
+/**
+ * Content script replies: the context field's value (null if there is no
+ * field), or whether a fill or copy worked
+ */
+export type ContentReply = { value: string | null } | { success: boolean };
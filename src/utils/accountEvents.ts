@@ -0,0 +1,57 @@
+// Classifying account events (signup, login, password reset, email change,
+// logout) from URLs and button text. Also loaded by the content script, so this
+// avoids the domain module.
+
+import { AccountEventType } from '../types/index';
+
+// Checked in order: the more specific flows first, since their URLs often
+// contain login words too ('/login/forgot-password')
+const ACCOUNT_URL_PATTERNS: Array<[AccountEventType, RegExp]> = [
+  ['logout', /(?:^|[^a-z])(?:log-?out|sign-?out|log-?off|sign-?off)(?:[^a-z]|$)/i],
+  ['password_reset', /(?:forgot|reset|recover|lost)[-_]?(?:your[-_]?)?(?:password|passwd|pwd)|(?:password|passwd|pwd)[-_/]?(?:reset|forgot|recovery)|(?:^|[^a-z])forgot(?:[^a-z]|$)/i],
+  ['email_change', /(?:change|update|edit|new)[-_]?e-?mail|e-?mail[-_/]?(?:change|update|edit)|(?:settings|account|profile)\/e-?mail(?:[^a-z]|$)/i],
+  ['signup', /(?:^|[^a-z])(?:sign-?up|sign_up|register|registration|join|enroll)(?:[^a-z]|$)|create[-_]?(?:an[-_]?)?account|new[-_]?account/i],
+  ['login', /(?:^|[^a-z])(?:log-?in|sign-?in|sign_in|sessions?|auth(?:enticate|orize)?|sso)(?:[^a-z]|$)/i]
+];
+
+// Submit button and heading wording
+const ACCOUNT_TEXT_PATTERNS: Array<[AccountEventType, RegExp]> = [
+  ['logout', /\b(log ?out|sign ?out|log ?off)\b/i],
+  ['password_reset', /\b(reset (your |my )?password|forgot (your )?password|send reset link|recover (your )?account)\b/i],
+  ['email_change', /\b(change|update) (your )?e-?mail\b/i],
+  ['signup', /\b(sign ?up|register|create (an |your )?account|join now|get started)\b/i],
+  ['login', /\b(log ?in|sign ?in|continue with|next)\b/i]
+];
+
+/**
+ * Classify a URL by its path ('/users/sign_up' -> 'signup'), then by its
+ * query, or null if nothing matches. A query never marks a logout: it often
+ * names where to go next or why ('/login?logout', '?next=/sign-out').
+ */
+export function classifyAccountUrl(url: string): AccountEventType | null {
+  let path: string;
+  let query: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname;
+    query = parsed.search;
+  } catch (error) {
+    const queryStart = url.indexOf('?');
+    path = queryStart >= 0 ? url.slice(0, queryStart) : url;
+    query = queryStart >= 0 ? url.slice(queryStart) : '';
+  }
+
+  const byPath = ACCOUNT_URL_PATTERNS.find(([, pattern]) => pattern.test(path));
+  if (byPath) return byPath[0];
+
+  const byQuery = ACCOUNT_URL_PATTERNS.find(([type, pattern]) => type !== 'logout' && pattern.test(query));
+  return byQuery ? byQuery[0] : null;
+}
+
+/**
+ * Classify visible text, such as a submit button's label, or null if nothing matches
+ */
+export function classifyAccountText(text: string): AccountEventType | null {
+  const match = ACCOUNT_TEXT_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+}
@@ -0,0 +1,45 @@
+// Change feed for Login Tracker Extension
+//
+// Mappings live in IndexedDB, which other extension pages and content scripts
+// cannot observe. Every committed write publishes its revision under one
+// chrome.storage.local key so any context can subscribe via storage.onChanged.
+
+// chrome.storage key holding the latest data change (revision only, no data)
+const DATA_CHANGE_KEY = 'dataChange';
+
+/**
+ * A committed write to the mapping/event stores
+ */
+export interface DataChange {
+  revision: number;
+  changedAt: number;
+}
+
+export type DataChangeListener = (change: DataChange) => void;
+
+/**
+ * Announce a committed write to every extension context
+ */
+export async function publishDataChange(revision: number): Promise<void> {
+  try {
+    const change: DataChange = { revision, changedAt: Date.now() };
+    await chrome.storage.local.set({ [DATA_CHANGE_KEY]: change });
+  } catch (error) {
+    console.error('Error publishing data change:', error);
+  }
+}
+
+/**
+ * Call `listener` after every committed write. Returns an unsubscribe function.
+ */
+export function subscribeToDataChanges(listener: DataChangeListener): () => void {
+  const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    const change = changes[DATA_CHANGE_KEY];
+    if (areaName === 'local' && change && change.newValue) {
+      listener(change.newValue as DataChange);
+    }
+  };
+
+  chrome.storage.onChanged.addListener(handleChange);
+  return () => chrome.storage.onChanged.removeListener(handleChange);
+}
@@ -0,0 +1,182 @@
+// Per-account cookie snapshots ("cookie jars"), so a site with several known
+// accounts can be switched between without signing out and back in. Jars stay
+// on this device (they are never synced or exported) and are sealed by the
+// vault like the mappings they belong to.
+
+import { COOKIE_JARS_STORE, MAPPINGS_STORE, TRASH_STORE, requestToPromise, runTransaction, writeTransaction } from './database';
+import { IndexedRecord, getRecordCodec, isVaultLockedError } from './vault';
+import { getEquivalentDomains } from './domainGroups';
+import { TrashItem } from './trash';
+
+/**
+ * The parts of a chrome.cookies.Cookie needed to set it again
+ */
+export interface SavedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: chrome.cookies.SameSiteStatus;
+  // Absent for session cookies
+  expirationDate?: number;
+}
+
+/**
+ * One account's cookies for a site, keyed by the mapping it belongs to
+ */
+export interface CookieJar {
+  domain: string;
+  email: string;
+  // Root domain the cookies were read from
+  site: string;
+  // When the jar was last captured or switched to. The newest jar of a site
+  // holds the cookies the browser is using.
+  timestamp: number;
+  cookies: SavedCookie[];
+}
+
+/**
+ * A jar as listed in the popup and login banner, without the cookie values
+ */
+export interface CookieJarSummary {
+  domain: string;
+  email: string;
+  site: string;
+  timestamp: number;
+  cookieCount: number;
+  // The browser currently holds this account's cookies
+  active: boolean;
+}
+
+/**
+ * Store an account's cookies. Skipped (false) if the account's mapping no
+ * longer exists, so a jar never outlives its mapping.
+ */
+export async function saveCookieJar(jar: CookieJar): Promise<boolean> {
+  try {
+    const codec = await getRecordCodec();
+    const record = await codec.encode(jar);
+
+    return await writeTransaction([COOKIE_JARS_STORE, MAPPINGS_STORE], async transaction => {
+      const key = [record.domain, record.email];
+      if (await requestToPromise(transaction.objectStore(MAPPINGS_STORE).getKey(key)) === undefined) {
+        return false;
+      }
+
+      transaction.objectStore(COOKIE_JARS_STORE).put(record);
+      return true;
+    });
+  } catch (error) {
+    if (isVaultLockedError(error)) {
+      console.log('Vault is locked, not saving cookie jar');
+      return false;
+    }
+    console.error('Error saving cookie jar:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the jars of a site across its equivalent domains (newest first)
+ */
+export async function getCookieJarsForSite(hostname: string): Promise<CookieJar[]> {
+  try {
+    const codec = await getRecordCodec();
+    const domainKeys = await Promise.all((await getEquivalentDomains(hostname)).map(domain => codec.indexKey(domain)));
+
+    const records = await runTransaction(COOKIE_JARS_STORE, 'readonly', async transaction => {
+      const index = transaction.objectStore(COOKIE_JARS_STORE).index('domain');
+      const perDomain = await Promise.all(domainKeys.map(key => requestToPromise<IndexedRecord[]>(index.getAll(key))));
+      return perDomain.flat();
+    });
+
+    const jars = await Promise.all(records.map(record => codec.decode<CookieJar>(record)));
+    return jars.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error('Error getting cookie jars for site:', error);
+    return [];
+  }
+}
+
+/**
+ * Get every stored jar (newest first)
+ */
+export async function getCookieJars(): Promise<CookieJar[]> {
+  try {
+    const codec = await getRecordCodec();
+    const records = await runTransaction(COOKIE_JARS_STORE, 'readonly', transaction =>
+      requestToPromise<IndexedRecord[]>(transaction.objectStore(COOKIE_JARS_STORE).getAll())
+    );
+
+    const jars = await Promise.all(records.map(record => codec.decode<CookieJar>(record)));
+    return jars.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error('Error getting cookie jars:', error);
+    return [];
+  }
+}
+
+/**
+ * Describe jars without their cookies, marking the newest jar of each site
+ * as the active one
+ */
+export function summarizeCookieJars(jars: CookieJar[]): CookieJarSummary[] {
+  const activeBySite = new Map<string, CookieJar>();
+  jars.forEach(jar => {
+    const active = activeBySite.get(jar.site);
+    if (!active || jar.timestamp > active.timestamp) {
+      activeBySite.set(jar.site, jar);
+    }
+  });
+
+  return jars.map(jar => ({
+    domain: jar.domain,
+    email: jar.email,
+    site: jar.site,
+    timestamp: jar.timestamp,
+    cookieCount: jar.cookies.length,
+    active: activeBySite.get(jar.site) === jar
+  }));
+}
+
+/**
+ * Delete jars whose mapping is gone for good (renamed, or its trash item was
+ * purged). A jar stays while its mapping is in the trash, so restoring the
+ * mapping brings its saved sign-in back too. Compares keys only, so it works
+ * while the vault is locked. Returns how many jars were deleted.
+ */
+export async function pruneCookieJars(): Promise<number> {
+  const findOrphans = async (transaction: IDBTransaction): Promise<IDBValidKey[]> => {
+    const jarKeys = await requestToPromise(transaction.objectStore(COOKIE_JARS_STORE).getAllKeys());
+    const mappingKeys = await requestToPromise(transaction.objectStore(MAPPINGS_STORE).getAllKeys());
+    const trashed = await requestToPromise<TrashItem[]>(transaction.objectStore(TRASH_STORE).getAll());
+    const live = new Set([
+      ...mappingKeys.map(key => (key as string[]).join('\n')),
+      ...trashed
+        .filter(item => item.reason === 'deleted')
+        .map(item => `${item.record.domain}\n${item.record.email}`)
+    ]);
+    return jarKeys.filter(key => !live.has((key as string[]).join('\n')));
+  };
+
+  try {
+    // Check first so a clean store doesn't bump the revision on every change
+    const orphans = await runTransaction([COOKIE_JARS_STORE, MAPPINGS_STORE, TRASH_STORE], 'readonly', findOrphans);
+    if (orphans.length === 0) return 0;
+
+    const pruned = await writeTransaction([COOKIE_JARS_STORE, MAPPINGS_STORE, TRASH_STORE], async transaction => {
+      const keys = await findOrphans(transaction);
+      keys.forEach(key => transaction.objectStore(COOKIE_JARS_STORE).delete(key));
+      return keys.length;
+    });
+
+    console.log('Deleted cookie jars of removed accounts:', pruned);
+    return pruned;
+  } catch (error) {
+    console.error('Error pruning cookie jars:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,296 @@
+// IndexedDB access for Login Tracker Extension
+
+import { runStorageMigrations } from './migrations';
+import { enqueueWrite } from './writeQueue';
+import { publishDataChange } from './changeFeed';
+
+const DB_NAME = 'login-tracker';
+const DB_VERSION = 3;
+
+// Object stores
+export const MAPPINGS_STORE = 'mappings';
+export const EVENTS_STORE = 'events';
+export const META_STORE = 'meta';
+export const TRASH_STORE = 'trash';
+export const COOKIE_JARS_STORE = 'cookieJars';
+
+// chrome.storage keys holding data from before the IndexedDB engine
+const LEGACY_MAPPINGS_KEY = 'emailMappings';
+const LEGACY_EVENTS_KEY = 'loginEvents';
+
+// Meta key set once the chrome.storage blob has been imported
+const IMPORTED_META_KEY = 'chromeStorageImported';
+
+// Meta key incremented by every write transaction
+const REVISION_META_KEY = 'dataRevision';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject if it aborts
+ */
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Create object stores and indexes
+ */
+function upgradeDatabase(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(MAPPINGS_STORE)) {
+    const mappings = db.createObjectStore(MAPPINGS_STORE, { keyPath: ['domain', 'email'] });
+    mappings.createIndex('domain', 'domain');
+    mappings.createIndex('email', 'email');
+    mappings.createIndex('timestamp', 'timestamp');
+  }
+
+  if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+    const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+    events.createIndex('domain', 'domain');
+    events.createIndex('email', 'email');
+    events.createIndex('timestamp', 'timestamp');
+  }
+
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+
+  // v2: deleted and edited entries kept for undo and restore
+  if (!db.objectStoreNames.contains(TRASH_STORE)) {
+    const trash = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+    trash.createIndex('deletedAt', 'deletedAt');
+  }
+
+  // v3: per-account cookie snapshots, keyed like the mapping they belong to
+  if (!db.objectStoreNames.contains(COOKIE_JARS_STORE)) {
+    const jars = db.createObjectStore(COOKIE_JARS_STORE, { keyPath: ['domain', 'email'] });
+    jars.createIndex('domain', 'domain');
+  }
+}
+
+/**
+ * Open the raw database connection
+ */
+function openConnection(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgradeDatabase(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Login tracker database upgrade blocked by another connection');
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A legacy mapping entry needs an email for its key (the domain is the one
+// it is listed under)
+function isLegacyMapping(value: unknown): value is Record<string, unknown> & { email: string } {
+  return isRecord(value) && typeof value.email === 'string';
+}
+
+// A legacy event needs the fields its key and indexes are built from
+function isLegacyEvent(value: unknown): value is Record<string, unknown> & { id: string } {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.domain === 'string'
+    && typeof value.email === 'string'
+    && typeof value.timestamp === 'number';
+}
+
+/**
+ * One-time import of the chrome.storage.local blob into IndexedDB. Entries
+ * that don't have the shape of a mapping or event are skipped.
+ */
+async function importChromeStorageBlob(db: IDBDatabase): Promise<void> {
+  const transaction = db.transaction(META_STORE, 'readonly');
+  const imported = await requestToPromise(transaction.objectStore(META_STORE).get(IMPORTED_META_KEY));
+  if (imported) return;
+
+  // Bring older blob formats up to the current shape before importing
+  await runStorageMigrations();
+
+  const stored = await chrome.storage.local.get([LEGACY_MAPPINGS_KEY, LEGACY_EVENTS_KEY]);
+  const mappings: unknown = stored[LEGACY_MAPPINGS_KEY];
+  const events: unknown = stored[LEGACY_EVENTS_KEY];
+  const legacyEvents = Array.isArray(events) ? events.filter(isLegacyEvent) : [];
+
+  const importTransaction = db.transaction([MAPPINGS_STORE, EVENTS_STORE, META_STORE], 'readwrite');
+  const done = transactionComplete(importTransaction);
+  const meta = importTransaction.objectStore(META_STORE);
+
+  // Another context may have finished the import while we were reading
+  if (await requestToPromise(meta.get(IMPORTED_META_KEY))) {
+    await done;
+    return;
+  }
+
+  let mappingCount = 0;
+  for (const [domain, entries] of Object.entries(isRecord(mappings) ? mappings : {})) {
+    const valid = Array.isArray(entries) ? entries.filter(isLegacyMapping) : [];
+    valid.forEach(entry => importTransaction.objectStore(MAPPINGS_STORE).put({ ...entry, domain }));
+    mappingCount += valid.length;
+  }
+  legacyEvents.forEach(event => importTransaction.objectStore(EVENTS_STORE).put(event));
+  meta.put(Date.now(), IMPORTED_META_KEY);
+  await done;
+
+  await chrome.storage.local.remove([LEGACY_MAPPINGS_KEY, LEGACY_EVENTS_KEY]);
+  console.log('Imported chrome.storage data into IndexedDB:', { mappings: mappingCount, events: legacyEvents.length });
+}
+
+/**
+ * Get the shared database connection (imports legacy data on first use)
+ */
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openConnection()
+      .then(async db => {
+        await importChromeStorageBlob(db);
+        return db;
+      })
+      .catch(error => {
+        databasePromise = null;
+        throw error;
+      });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run work inside a single transaction. `work` may await requests on the
+ * transaction but must not await anything else, or the transaction closes.
+ */
+export async function runTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await getDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = transactionComplete(transaction);
+
+  try {
+    const result = await work(transaction);
+    await done;
+    return result;
+  } catch (error) {
+    done.catch(() => undefined);
+    try {
+      transaction.abort();
+    } catch (abortError) {
+      // Already committed or aborted
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the data revision inside an open transaction
+ */
+export async function readRevisionInTransaction(transaction: IDBTransaction): Promise<number> {
+  const revision = await requestToPromise(transaction.objectStore(META_STORE).get(REVISION_META_KEY));
+  return typeof revision === 'number' ? revision : 0;
+}
+
+/**
+ * Increment the data revision inside an open readwrite transaction
+ */
+export async function bumpRevisionInTransaction(transaction: IDBTransaction): Promise<number> {
+  const revision = await readRevisionInTransaction(transaction) + 1;
+  transaction.objectStore(META_STORE).put(revision, REVISION_META_KEY);
+  return revision;
+}
+
+/**
+ * Run a write transaction through the write queue and bump the data revision.
+ * Every writer goes through here so concurrent detections never interleave.
+ */
+export function writeTransaction<T>(
+  storeNames: string[],
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> {
+  return enqueueWrite(async () => {
+    let revision = 0;
+    const result = await runTransaction([...storeNames, META_STORE], 'readwrite', async transaction => {
+      const value = await work(transaction);
+      revision = await bumpRevisionInTransaction(transaction);
+      return value;
+    });
+    await publishDataChange(revision);
+    return result;
+  });
+}
+
+// Attempts before giving up on a read-modify-write that keeps conflicting
+const MAX_WRITE_ATTEMPTS = 8;
+
+// Upper bound of the random wait before a retry, multiplied by the attempt
+// number. Without it two contexts retrying in lockstep can keep colliding
+// until one gives up and its write is lost.
+const WRITE_RETRY_BACKOFF_MS = 10;
+
+/**
+ * Wait a random, growing delay before retrying a conflicted write
+ */
+function retryBackoff(attempt: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.random() * WRITE_RETRY_BACKOFF_MS * (attempt + 1)));
+}
+
+/**
+ * Read-modify-write for work that must leave the transaction in between
+ * (e.g. to decrypt and re-encrypt records). `read` runs in a readonly
+ * transaction, `modify` may await anything, and `write` only commits if no
+ * other write landed since the read; otherwise the whole cycle is retried.
+ */
+export function readModifyWrite<R, W, T>(
+  storeNames: string[],
+  read: (transaction: IDBTransaction) => Promise<R>,
+  modify: (data: R) => Promise<W>,
+  write: (transaction: IDBTransaction, data: W) => Promise<T>
+): Promise<T> {
+  const scope = [...storeNames, META_STORE];
+
+  return enqueueWrite(async () => {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const snapshot = await runTransaction(scope, 'readonly', async transaction => ({
+        data: await read(transaction),
+        revision: await readRevisionInTransaction(transaction)
+      }));
+      const prepared = await modify(snapshot.data);
+
+      const outcome = await runTransaction(scope, 'readwrite', async transaction => {
+        if (await readRevisionInTransaction(transaction) !== snapshot.revision) {
+          return { committed: false as const };
+        }
+        const result = await write(transaction, prepared);
+        const revision = await bumpRevisionInTransaction(transaction);
+        return { committed: true as const, result, revision };
+      });
+
+      if (outcome.committed) {
+        await publishDataChange(outcome.revision);
+        return outcome.result;
+      }
+      console.warn('Write conflicted with another update, retrying');
+      await retryBackoff(attempt);
+    }
+    throw new Error('Write kept conflicting with other updates');
+  });
+}
@@ -0,0 +1,114 @@
+// Domain resolution for Login Tracker Extension, backed by a bundled
+// Public Suffix List snapshot (regenerate with `npm run update-psl`)
+
+import publicSuffixList from './publicSuffixList.json';
+
+/**
+ * Which part of the Public Suffix List a rule comes from. Private rules cover
+ * hosting platforms (github.io, herokuapp.com, ...) where each subdomain
+ * belongs to a different owner.
+ */
+type RuleSection = 'icann' | 'private';
+
+export interface PublicSuffixOptions {
+  // Also apply private-domain rules (default true)
+  includePrivate?: boolean;
+}
+
+// Rule text ('co.uk', '*.ck', '!www.ck') -> section, built on first use
+let rules: Map<string, RuleSection> | null = null;
+
+function getRules(): Map<string, RuleSection> {
+  if (!rules) {
+    rules = new Map();
+    publicSuffixList.icann.forEach(rule => rules!.set(rule, 'icann'));
+    publicSuffixList.private.forEach(rule => rules!.set(rule, 'private'));
+  }
+  return rules;
+}
+
+/**
+ * Date of the bundled Public Suffix List snapshot
+ */
+export function getPublicSuffixListVersion(): string {
+  return publicSuffixList.version;
+}
+
+/**
+ * Lowercase a hostname, drop a trailing dot and convert IDNs to punycode
+ */
+export function normalizeHostname(hostname: string): string {
+  let host = hostname.trim().toLowerCase().replace(/\.$/, '');
+
+  if (/[^\x00-\x7f]/.test(host)) {
+    try {
+      host = new URL(`http://${host}`).hostname;
+    } catch (error) {
+      // Not a valid hostname; match it as typed
+    }
+  }
+  return host;
+}
+
+/**
+ * Get the hostname from user input that may be a full URL ('https://a.com/x' -> 'a.com')
+ */
+export function parseHostname(input: string): string {
+  const value = input.trim();
+  try {
+    return normalizeHostname(new URL(value.includes('://') ? value : `http://${value}`).hostname);
+  } catch (error) {
+    return normalizeHostname(value);
+  }
+}
+
+function isIpAddress(hostname: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.includes(':');
+}
+
+/**
+ * Get the public suffix of a hostname ('bbc.co.uk' -> 'co.uk',
+ * 'foo.github.io' -> 'github.io'). Unlisted TLDs fall back to the last label.
+ */
+export function getPublicSuffix(hostname: string, options: PublicSuffixOptions = {}): string {
+  const includePrivate = options.includePrivate !== false;
+  const labels = normalizeHostname(hostname).split('.');
+  const ruleSet = getRules();
+  const matches = (rule: string) => {
+    const section = ruleSet.get(rule);
+    return section === 'icann' || (section === 'private' && includePrivate);
+  };
+
+  // Labels are tried longest first, so the first matching rule is the most specific one
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (matches(`!${candidate}`)) {
+      return labels.slice(i + 1).join('.');
+    }
+
+    const parent = labels.slice(i + 1).join('.');
+    if (matches(candidate) || (parent && matches(`*.${parent}`))) {
+      return candidate;
+    }
+  }
+
+  return labels[labels.length - 1];
+}
+
+/**
+ * Get the registrable domain (public suffix plus one label) used to group
+ * accounts: 'login.bbc.co.uk' -> 'bbc.co.uk'. IP addresses, single-label hosts
+ * and bare public suffixes are returned unchanged.
+ */
+export function getRootDomain(hostname: string, options: PublicSuffixOptions = {}): string {
+  if (!hostname) return hostname;
+
+  const host = normalizeHostname(hostname);
+  if (isIpAddress(host)) return host;
+
+  const suffix = getPublicSuffix(host, options);
+  if (host === suffix) return host;
+
+  const labels = host.slice(0, -suffix.length - 1).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
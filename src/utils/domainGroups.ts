@@ -0,0 +1,109 @@
+// Equivalent-domain groups: sites that share one account (google.com/youtube.com)
+
+import { getRootDomain, parseHostname } from './domain';
+
+// Storage key for the user's groups and disabled defaults
+const DOMAIN_GROUPS_KEY = 'domainGroups';
+
+/**
+ * Domains that share accounts. The first domain is the primary one that
+ * logins on any member are stored under.
+ */
+export interface DomainGroup {
+  id: string;
+  name: string;
+  domains: string[];
+}
+
+/**
+ * What the user changed: their own groups and bundled groups they turned off
+ */
+export interface DomainGroupSettings {
+  custom: DomainGroup[];
+  disabledDefaults: string[];
+}
+
+export const DEFAULT_DOMAIN_GROUPS: DomainGroup[] = [
+  { id: 'google', name: 'Google', domains: ['google.com', 'youtube.com', 'gmail.com', 'blogger.com'] },
+  { id: 'microsoft', name: 'Microsoft', domains: ['microsoft.com', 'live.com', 'outlook.com', 'office.com', 'microsoftonline.com', 'xbox.com', 'skype.com'] },
+  { id: 'apple', name: 'Apple', domains: ['apple.com', 'icloud.com'] },
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    domains: ['amazon.com', 'amazon.de', 'amazon.co.uk', 'amazon.fr', 'amazon.it', 'amazon.es', 'amazon.ca', 'amazon.co.jp', 'amazon.in', 'amazon.com.au', 'audible.com']
+  },
+  { id: 'atlassian', name: 'Atlassian', domains: ['atlassian.com', 'atlassian.net', 'bitbucket.org', 'trello.com'] },
+  { id: 'meta', name: 'Meta', domains: ['facebook.com', 'messenger.com', 'instagram.com'] },
+  { id: 'stackexchange', name: 'Stack Exchange', domains: ['stackoverflow.com', 'stackexchange.com', 'superuser.com', 'serverfault.com', 'askubuntu.com'] }
+];
+
+const DEFAULT_SETTINGS: DomainGroupSettings = { custom: [], disabledDefaults: [] };
+
+/**
+ * Get the user's group settings
+ */
+export async function getDomainGroupSettings(): Promise<DomainGroupSettings> {
+  try {
+    const result = await chrome.storage.local.get([DOMAIN_GROUPS_KEY]);
+    return { ...DEFAULT_SETTINGS, ...(result[DOMAIN_GROUPS_KEY] || {}) };
+  } catch (error) {
+    console.error('Error getting domain groups:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Save the user's group settings (member domains are reduced to root domains)
+ */
+export async function saveDomainGroupSettings(settings: DomainGroupSettings): Promise<boolean> {
+  try {
+    const custom = settings.custom
+      .map(group => ({
+        ...group,
+        name: group.name.trim(),
+        domains: [...new Set(group.domains.map(domain => getRootDomain(parseHostname(domain))).filter(domain => domain))]
+      }))
+      .filter(group => group.domains.length > 1);
+
+    await chrome.storage.local.set({ [DOMAIN_GROUPS_KEY]: { custom, disabledDefaults: settings.disabledDefaults } });
+    return true;
+  } catch (error) {
+    console.error('Error saving domain groups:', error);
+    return false;
+  }
+}
+
+/**
+ * Groups in effect: the user's own first (so they win overlaps), then enabled defaults
+ */
+export async function getDomainGroups(): Promise<DomainGroup[]> {
+  const settings = await getDomainGroupSettings();
+  const disabled = new Set(settings.disabledDefaults);
+  return [...settings.custom, ...DEFAULT_DOMAIN_GROUPS.filter(group => !disabled.has(group.id))];
+}
+
+/**
+ * Find the group a hostname belongs to
+ */
+export function findDomainGroup(hostname: string, groups: DomainGroup[]): DomainGroup | undefined {
+  const rootDomain = getRootDomain(hostname);
+  return groups.find(group => group.domains.includes(rootDomain));
+}
+
+/**
+ * The storage key for logins on a hostname: its group's primary domain, or its root domain
+ */
+export async function getCanonicalDomain(hostname: string): Promise<string> {
+  const group = findDomainGroup(hostname, await getDomainGroups());
+  return group ? group.domains[0] : getRootDomain(hostname);
+}
+
+/**
+ * Every storage key that may hold accounts for a hostname: its group's
+ * members, its root domain, and the hostname itself (entries from before
+ * root-domain grouping)
+ */
+export async function getEquivalentDomains(hostname: string): Promise<string[]> {
+  const group = findDomainGroup(hostname, await getDomainGroups());
+  return [...new Set([...(group ? group.domains : []), getRootDomain(hostname), hostname.toLowerCase()])];
+}
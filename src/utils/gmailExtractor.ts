@@ -1,5 +1,7 @@
 // Gmail extraction utilities for Login Tracker Extension
 
+import { getRootDomain } from './domain';
+
 /**
  * Gmail-specific email patterns and detection
  */
@@ -304,44 +306,15 @@ export const GmailUtils = {
  * Domain utilities for smart domain grouping
  */
 export class DomainUtils {
-  // Common TLDs that should be treated as separate domains
-  private static readonly SEPARATE_TLDS = new Set([
-    'co.uk', 'co.jp', 'co.kr', 'com.au', 'co.nz', 'co.za', 'com.br', 'com.mx',
-    'co.in', 'co.ca', 'com.sg', 'com.hk', 'co.th', 'com.tw', 'com.tr', 'com.ar',
-    'com.co', 'com.pe', 'com.ve', 'com.ec', 'com.uy', 'com.py', 'com.bo', 'com.gt',
-    'com.sv', 'com.hn', 'com.ni', 'com.cr', 'com.pa', 'com.do', 'com.pr', 'com.jm',
-    'com.tt', 'com.bb', 'com.lc', 'com.vc', 'com.gd', 'com.ag', 'com.dm', 'com.kn',
-    'com.ms', 'com.vc', 'com.ai', 'com.vg', 'com.bm', 'com.ky', 'com.tc', 'com.fk'
-  ]);
-
   /**
-   * Extract root domain from subdomain
+   * Extract root domain from subdomain (see getRootDomain in ./domain)
    * Examples:
    * - login.facebook.com -> facebook.com
-   * - api.twitter.com -> twitter.com
-   * - github.com -> github.com (already root)
+   * - www.bbc.co.uk -> bbc.co.uk
+   * - foo.github.io -> foo.github.io
    */
   static getRootDomain(domain: string): string {
-    if (!domain) return domain;
-
-    // Remove www if present
-    let cleanDomain = domain.toLowerCase().replace(/^www\./, '');
-
-    // Split by dots
-    const parts = cleanDomain.split('.');
-
-    if (parts.length <= 2) {
-      return cleanDomain; // Already a root domain
-    }
-
-    // Check if it's a known separate TLD (like co.uk)
-    const potentialTld = parts.slice(-2).join('.');
-    if (this.SEPARATE_TLDS.has(potentialTld)) {
-      return parts.slice(-3).join('.');
-    }
-
-    // For regular TLDs, return the last two parts
-    return parts.slice(-2).join('.');
+    return getRootDomain(domain);
   }
 
   /**
@@ -0,0 +1,117 @@
+// Reading the account identifier out of a login request body. Only the
+// identifier is ever returned; passwords and the rest of the body are dropped.
+
+// Storage key for the user's field-name list
+const IDENTIFIER_FIELDS_KEY = 'identifierFields';
+
+// Nested objects searched at most this deep ({ user: { email } })
+const MAX_BODY_DEPTH = 4;
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+/**
+ * A request body: Chrome's parse of form-encoded/multipart bodies, or any
+ * other body as text (JSON, or form-encoded sent with fetch)
+ */
+export interface LoginRequestBody {
+  formData?: Record<string, unknown[]>;
+  raw?: string;
+}
+
+// Field names that hold the account identifier in common login APIs
+export const DEFAULT_IDENTIFIER_FIELDS = [
+  'email',
+  'username',
+  'login',
+  'user',
+  'identifier',
+  'email_address',
+  'emailAddress',
+  'user_email',
+  'loginId',
+  'account'
+];
+
+/**
+ * Get the field names to look for (compared case-insensitively)
+ */
+export async function getIdentifierFields(): Promise<string[]> {
+  try {
+    const result = await chrome.storage.local.get([IDENTIFIER_FIELDS_KEY]);
+    return result[IDENTIFIER_FIELDS_KEY] || DEFAULT_IDENTIFIER_FIELDS;
+  } catch (error) {
+    console.error('Error getting identifier fields:', error);
+    return DEFAULT_IDENTIFIER_FIELDS;
+  }
+}
+
+/**
+ * Save the field names to look for. An empty list restores the defaults.
+ */
+export async function saveIdentifierFields(fields: string[]): Promise<boolean> {
+  try {
+    const cleaned = [...new Set(fields.map(field => field.trim()).filter(field => field))];
+    if (cleaned.length === 0) {
+      await chrome.storage.local.remove(IDENTIFIER_FIELDS_KEY);
+    } else {
+      await chrome.storage.local.set({ [IDENTIFIER_FIELDS_KEY]: cleaned });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving identifier fields:', error);
+    return false;
+  }
+}
+
+function asEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function findInObject(value: unknown, fields: Set<string>, depth: number): string | null {
+  if (typeof value !== 'object' || value === null || depth > MAX_BODY_DEPTH) return null;
+
+  const entries = Array.isArray(value) ? value.map(item => ['', item] as const) : Object.entries(value);
+  for (const [key, fieldValue] of entries) {
+    const email = fields.has(key.toLowerCase()) ? asEmail(fieldValue) : null;
+    if (email) return email;
+  }
+  for (const [, fieldValue] of entries) {
+    const nested = findInObject(fieldValue, fields, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Find the email identifier in a request body
+ */
+export function findIdentifierInBody(body: LoginRequestBody, fieldNames: string[]): string | null {
+  const fields = new Set(fieldNames.map(field => field.toLowerCase()));
+
+  if (body.formData) {
+    for (const [key, values] of Object.entries(body.formData)) {
+      const email = fields.has(key.toLowerCase()) ? asEmail(values[0]) : null;
+      if (email) return email;
+    }
+    return null;
+  }
+
+  const raw = body.raw?.trim();
+  if (!raw) return null;
+
+  if (raw.startsWith('{') || raw.startsWith('[')) {
+    try {
+      return findInObject(JSON.parse(raw), fields, 0);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  for (const [key, value] of new URLSearchParams(raw)) {
+    const email = fields.has(key.toLowerCase()) ? asEmail(value) : null;
+    if (email) return email;
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+// Identity providers behind "Sign in with ..." buttons, recognised from their
+// OAuth/OIDC authorize endpoints
+
+import { IdentityProviderId, IdentityProviderLogin } from '../types/index';
+
+/**
+ * A known provider, the host + path of its authorize endpoint and the hosts
+ * that appear as `iss` in its tokens
+ */
+interface IdentityProviderDefinition {
+  id: Exclude<IdentityProviderId, 'oidc' | 'saml'>;
+  name: string;
+  authorize: RegExp;
+  issuers: string[];
+}
+
+const IDENTITY_PROVIDERS: IdentityProviderDefinition[] = [
+  {
+    id: 'google',
+    name: 'Google',
+    authorize: /^accounts\.google\.com\/(o\/oauth2\/(v2\/)?auth|signin\/oauth)/,
+    issuers: ['accounts.google.com']
+  },
+  { id: 'github', name: 'GitHub', authorize: /^github\.com\/login\/oauth\/authorize/, issuers: ['github.com'] },
+  {
+    id: 'microsoft',
+    name: 'Microsoft',
+    authorize: /^(login\.microsoftonline\.com\/[^/]+\/oauth2\/(v2\.0\/)?authorize|login\.live\.com\/oauth20_authorize\.srf)/,
+    issuers: ['login.microsoftonline.com', 'sts.windows.net', 'login.live.com']
+  },
+  { id: 'apple', name: 'Apple', authorize: /^appleid\.apple\.com\/auth\/authorize/, issuers: ['appleid.apple.com'] },
+  {
+    id: 'facebook',
+    name: 'Facebook',
+    authorize: /^(www\.|m\.)?facebook\.com\/(v[\d.]+\/)?dialog\/oauth/,
+    issuers: ['www.facebook.com', 'facebook.com']
+  }
+];
+
+// Parameters every OAuth 2.0 / OIDC authorization request carries
+const AUTHORIZE_PARAMS = ['client_id', 'redirect_uri', 'response_type'];
+
+/**
+ * Recognise an authorize request: a known provider's endpoint, or any URL
+ * carrying the standard authorization request parameters (generic OIDC)
+ */
+export function matchIdentityProvider(url: string): IdentityProviderLogin | null {
+  try {
+    const parsed = new URL(url);
+    const hostAndPath = `${parsed.hostname}${parsed.pathname}`;
+
+    const known = IDENTITY_PROVIDERS.find(provider => provider.authorize.test(hostAndPath));
+    if (known) {
+      return { id: known.id, issuer: parsed.hostname };
+    }
+    if (AUTHORIZE_PARAMS.every(name => parsed.searchParams.has(name))) {
+      return { id: 'oidc', issuer: parsed.hostname };
+    }
+  } catch (error) {
+    // Not a URL
+  }
+  return null;
+}
+
+// Issuers are hosts for authorize requests but URLs (or URNs) in tokens
+function getIssuerHost(issuer: string): string {
+  try {
+    return new URL(issuer).hostname || issuer;
+  } catch (error) {
+    return issuer;
+  }
+}
+
+/**
+ * Identify the provider that issued a token ('https://accounts.google.com' -> google)
+ */
+export function matchTokenIssuer(issuer: string, protocol: 'oidc' | 'saml'): IdentityProviderLogin {
+  const host = getIssuerHost(issuer).toLowerCase();
+  const known = IDENTITY_PROVIDERS.find(provider => provider.issuers.includes(host));
+  return { id: known ? known.id : protocol, issuer: host };
+}
+
+/**
+ * Display name for a provider ('Google', or the issuer host for generic OIDC/SAML)
+ */
+export function getProviderName(provider: IdentityProviderLogin): string {
+  const known = IDENTITY_PROVIDERS.find(definition => definition.id === provider.id);
+  return known ? known.name : getIssuerHost(provider.issuer);
+}
+
+/**
+ * Label shown next to an account ('Sign in with Google')
+ */
+export function getProviderLabel(provider: IdentityProviderLogin): string {
+  return `Sign in with ${getProviderName(provider)}`;
+}
@@ -0,0 +1,145 @@
+// Decoding of the identity assertions a provider hands back to a site (OIDC
+// id_tokens and SAML responses). Decoded locally only to read who signed in;
+// signatures are not verified.
+
+/**
+ * Who an identity assertion says signed in
+ */
+export interface DecodedIdentity {
+  protocol: 'oidc' | 'saml';
+  email?: string;
+  subject?: string;
+  issuer?: string;
+  // The encoded token, for telling repeat sightings apart
+  token: string;
+}
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// id_token claims that hold an email when `email` is missing (Microsoft work accounts)
+const EMAIL_CLAIMS = ['email', 'preferred_username', 'upn', 'unique_name'];
+
+// SAML attribute names that hold an email (matched case-insensitively against the end of the name)
+const SAML_EMAIL_ATTRIBUTES = ['emailaddress', 'email', 'mail', 'e-mail'];
+
+function asEmail(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const email = value.trim();
+  return EMAIL_PATTERN.test(email) ? email.toLowerCase() : undefined;
+}
+
+/**
+ * Decode standard or URL-safe base64 as UTF-8
+ */
+function decodeBase64(value: string): string {
+  const base64 = value.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read the subject, issuer and email claims from an OIDC id_token (JWT)
+ */
+export function decodeIdToken(token: string): DecodedIdentity | null {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64(parts[1]));
+    if (typeof claims !== 'object' || claims === null) return null;
+
+    const email = EMAIL_CLAIMS.map(claim => asEmail(claims[claim])).find(value => value);
+    const identity: DecodedIdentity = { protocol: 'oidc', token };
+    if (email) identity.email = email;
+    if (typeof claims.sub === 'string') identity.subject = claims.sub;
+    if (typeof claims.iss === 'string') identity.issuer = claims.iss;
+    return identity;
+  } catch (error) {
+    console.log('Could not decode id_token:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the NameID, issuer and email attribute from a base64 SAMLResponse
+ * (HTTP-POST binding). Parsed with patterns rather than DOMParser, which the
+ * background service worker doesn't have.
+ */
+export function decodeSamlResponse(samlResponse: string): DecodedIdentity | null {
+  try {
+    const xml = decodeBase64(samlResponse);
+    if (!/<(\w+:)?Response[\s>]/.test(xml)) return null;
+
+    const identity: DecodedIdentity = { protocol: 'saml', token: samlResponse };
+
+    // The assertion's Issuer (the response may carry its own first; they match in practice)
+    const issuer = xml.match(/<(?:\w+:)?Issuer[^>]*>([^<]+)<\/(?:\w+:)?Issuer>/);
+    if (issuer) identity.issuer = decodeXmlText(issuer[1]);
+
+    const nameId = xml.match(/<(?:\w+:)?NameID[^>]*>([^<]+)<\/(?:\w+:)?NameID>/);
+    if (nameId) {
+      identity.subject = decodeXmlText(nameId[1]);
+      const email = asEmail(identity.subject);
+      if (email) identity.email = email;
+    }
+
+    if (!identity.email) {
+      const attributes = xml.matchAll(/<(?:\w+:)?Attribute\s[^>]*Name="([^"]+)"[^>]*>([\s\S]*?)<\/(?:\w+:)?Attribute>/g);
+      for (const [, name, body] of attributes) {
+        const lowerName = name.toLowerCase();
+        if (!SAML_EMAIL_ATTRIBUTES.some(suffix => lowerName.endsWith(suffix))) continue;
+
+        const value = body.match(/<(?:\w+:)?AttributeValue[^>]*>([^<]+)</);
+        const email = value ? asEmail(decodeXmlText(value[1])) : undefined;
+        if (email) {
+          identity.email = email;
+          break;
+        }
+      }
+    }
+
+    return identity;
+  } catch (error) {
+    console.log('Could not decode SAMLResponse:', error);
+    return null;
+  }
+}
+
+/**
+ * Find an identity assertion among request parameters (query string, URL
+ * fragment or form_post body)
+ */
+export function findIdentityInParams(params: URLSearchParams): DecodedIdentity | null {
+  const idToken = params.get('id_token');
+  if (idToken) {
+    const identity = decodeIdToken(idToken);
+    if (identity) return identity;
+  }
+
+  const samlResponse = params.get('SAMLResponse');
+  return samlResponse ? decodeSamlResponse(samlResponse) : null;
+}
+
+/**
+ * Find an identity assertion in a URL's query string or fragment
+ */
+export function findIdentityInUrl(url: string): DecodedIdentity | null {
+  try {
+    const parsed = new URL(url);
+    return findIdentityInParams(parsed.searchParams) || findIdentityInParams(new URLSearchParams(parsed.hash.slice(1)));
+  } catch (error) {
+    return null;
+  }
+}
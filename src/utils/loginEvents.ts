@@ -0,0 +1,270 @@
+// Append-only login event log for Login Tracker Extension
+
+import {
+  AccountEventTimes,
+  AccountEventType,
+  IdentityProviderLogin,
+  LoginEvent,
+  LoginEventQuery,
+  LoginMethod,
+  LoginMethodCounts,
+  LoginTabContext
+} from '../types/index';
+import { DomainMappings } from './storage';
+import { EVENTS_STORE, requestToPromise, runTransaction } from './database';
+import { IndexedRecord, RecordCodec, getRecordCodec } from './vault';
+import { getRootDomain } from './domain';
+
+export interface NewLoginEvent {
+  domain: string;
+  email: string;
+  url: string;
+  method?: LoginMethod;
+  type?: AccountEventType;
+  timestamp?: number;
+  tab?: LoginTabContext;
+  provider?: IdentityProviderLogin;
+}
+
+/**
+ * Build a login event with a fresh id
+ */
+export function createLoginEvent(input: NewLoginEvent): LoginEvent {
+  const event: LoginEvent = {
+    id: crypto.randomUUID(),
+    timestamp: input.timestamp ?? Date.now(),
+    domain: getRootDomain(input.domain),
+    email: input.email,
+    url: input.url
+  };
+
+  if (input.method) event.method = input.method;
+  if (input.type) event.type = input.type;
+  if (input.tab) event.tab = input.tab;
+  if (input.provider) event.provider = input.provider;
+
+  return event;
+}
+
+/**
+ * Query login events by domain, email and date range (most recent first)
+ */
+export async function getLoginEvents(query: LoginEventQuery = {}): Promise<LoginEvent[]> {
+  try {
+    const codec = await getRecordCodec();
+    const domainKey = query.domain ? await codec.indexKey(query.domain) : null;
+    const emailKey = query.email ? await codec.indexKey(query.email) : null;
+
+    const stored = await runTransaction(EVENTS_STORE, 'readonly', transaction => {
+      const store = transaction.objectStore(EVENTS_STORE);
+
+      // Narrow with the most selective index, then filter the rest in memory
+      if (domainKey) {
+        return requestToPromise<IndexedRecord[]>(store.index('domain').getAll(domainKey));
+      }
+      if (emailKey) {
+        return requestToPromise<IndexedRecord[]>(store.index('email').getAll(emailKey));
+      }
+      return requestToPromise<IndexedRecord[]>(store.index('timestamp').getAll(getTimestampRange(query)));
+    });
+
+    return filterLoginEvents(await decodeLoginEvents(codec, stored), query);
+  } catch (error) {
+    console.error('Error querying login events:', error);
+    return [];
+  }
+}
+
+/**
+ * Decode events read from the store
+ */
+function decodeLoginEvents(codec: RecordCodec, stored: IndexedRecord[]): Promise<LoginEvent[]> {
+  return Promise.all(stored.map(record => codec.decode<LoginEvent>(record)));
+}
+
+/**
+ * Build a key range over the timestamp index for a query
+ */
+function getTimestampRange(query: LoginEventQuery): IDBKeyRange | null {
+  if (query.since !== undefined && query.until !== undefined) {
+    return IDBKeyRange.bound(query.since, query.until);
+  }
+  if (query.since !== undefined) {
+    return IDBKeyRange.lowerBound(query.since);
+  }
+  if (query.until !== undefined) {
+    return IDBKeyRange.upperBound(query.until);
+  }
+  return null;
+}
+
+/**
+ * Filter and sort events in memory (most recent first)
+ */
+export function filterLoginEvents(events: LoginEvent[], query: LoginEventQuery): LoginEvent[] {
+  const matching = events
+    .filter(event => {
+      if (query.domain && event.domain !== query.domain) return false;
+      if (query.email && event.email !== query.email) return false;
+      if (query.type && (event.type || 'login') !== query.type) return false;
+      if (query.since !== undefined && event.timestamp < query.since) return false;
+      if (query.until !== undefined && event.timestamp > query.until) return false;
+      return true;
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+}
+
+/**
+ * Check whether an event leaves the user signed in (a login, or a signup).
+ * Only these count towards an entry's logins and last-login time.
+ */
+export function isSignInEvent(event: LoginEvent): boolean {
+  return !event.type || event.type === 'login' || event.type === 'signup';
+}
+
+/**
+ * Apply a single login event to the aggregated mappings
+ * (limits are enforced separately by the retention policy)
+ */
+export function applyLoginEvent(mappings: DomainMappings, event: LoginEvent): DomainMappings {
+  const { domain, email } = event;
+  const signsIn = isSignInEvent(event);
+
+  if (!mappings[domain]) {
+    mappings[domain] = [];
+  }
+
+  const existingEntry = mappings[domain].find(entry => entry.email === email);
+
+  // A logout ends the account's session. It is inferred from the site rather
+  // than detected from the account, so it leaves provenance alone.
+  if (event.type === 'logout') {
+    if (existingEntry) {
+      existingEntry.accountEvents = recordAccountEvent(existingEntry.accountEvents, event.type, event.timestamp);
+      if (existingEntry.session && existingEntry.session.endedAt === undefined && existingEntry.session.startedAt <= event.timestamp) {
+        existingEntry.session = { ...existingEntry.session, endedAt: event.timestamp };
+      }
+    }
+    return mappings;
+  }
+
+  if (existingEntry) {
+    if (signsIn) {
+      existingEntry.timestamp = Math.max(existingEntry.timestamp, event.timestamp);
+      existingEntry.count += 1;
+      // Logins during an open session don't restart it
+      if (!existingEntry.session || existingEntry.session.endedAt !== undefined) {
+        existingEntry.session = { startedAt: event.timestamp };
+      }
+    }
+    if (event.type === 'signup') {
+      existingEntry.createdAt = Math.min(existingEntry.createdAt ?? event.timestamp, event.timestamp);
+    }
+    if (event.type && event.type !== 'login') {
+      existingEntry.accountEvents = recordAccountEvent(existingEntry.accountEvents, event.type, event.timestamp);
+    }
+    existingEntry.apiUrl = event.url;
+    existingEntry.lastSourceUrl = event.url;
+    if (!existingEntry.firstSourceUrl) {
+      existingEntry.firstSourceUrl = event.url;
+    }
+    if (event.method) {
+      existingEntry.methods = incrementMethodCount(existingEntry.methods, event.method);
+    }
+    if (event.provider) {
+      existingEntry.provider = event.provider;
+    }
+  } else {
+    mappings[domain].unshift({
+      email: email,
+      apiUrl: event.url,
+      timestamp: event.timestamp,
+      count: signsIn ? 1 : 0,
+      firstSourceUrl: event.url,
+      lastSourceUrl: event.url,
+      ...(event.method ? { methods: { [event.method]: 1 } } : {}),
+      ...(event.provider ? { provider: event.provider } : {}),
+      ...(event.type === 'signup' ? { createdAt: event.timestamp } : {}),
+      ...(signsIn ? { session: { startedAt: event.timestamp } } : {}),
+      ...(event.type && event.type !== 'login' ? { accountEvents: { [event.type]: event.timestamp } } : {})
+    });
+  }
+
+  return mappings;
+}
+
+/**
+ * Note when an account event was last seen
+ */
+function recordAccountEvent(
+  accountEvents: AccountEventTimes | undefined,
+  type: AccountEventType,
+  timestamp: number
+): AccountEventTimes {
+  const times = { ...accountEvents };
+  times[type] = Math.max(times[type] ?? timestamp, timestamp);
+  return times;
+}
+
+/**
+ * Add one detection to a per-method breakdown
+ */
+export function incrementMethodCount(methods: LoginMethodCounts | undefined, method: LoginMethod): LoginMethodCounts {
+  const counts = { ...methods };
+  counts[method] = (counts[method] || 0) + 1;
+  return counts;
+}
+
+/**
+ * Remove events for a deleted domain (or a single email on it) within an
+ * open transaction. Takes index keys (see RecordCodec.indexKey); with no
+ * domain the whole log is cleared.
+ */
+export async function deleteLoginEventsInTransaction(
+  transaction: IDBTransaction,
+  domainKey?: string,
+  emailKey?: string
+): Promise<void> {
+  const store = transaction.objectStore(EVENTS_STORE);
+
+  if (domainKey === undefined) {
+    await requestToPromise(store.clear());
+    return;
+  }
+
+  const events = await readLoginEventsInTransaction(transaction, domainKey, emailKey);
+  events.forEach(event => store.delete(event.id!));
+}
+
+/**
+ * Read stored (still encoded) events for a domain, optionally a single email
+ */
+export async function readLoginEventsInTransaction(
+  transaction: IDBTransaction,
+  domainKey: string,
+  emailKey?: string
+): Promise<IndexedRecord[]> {
+  const events = await requestToPromise<IndexedRecord[]>(
+    transaction.objectStore(EVENTS_STORE).index('domain').getAll(domainKey)
+  );
+  return events.filter(event => emailKey === undefined || event.email === emailKey);
+}
+
+/**
+ * Move stored events to a renamed domain and/or email, re-encoding them.
+ * The result is written back with `put` (event ids do not change).
+ */
+export async function reassignStoredLoginEvents(
+  codec: RecordCodec,
+  stored: IndexedRecord[],
+  to: { domain?: string; email?: string }
+): Promise<IndexedRecord[]> {
+  const events = await decodeLoginEvents(codec, stored);
+  return Promise.all(events.map(event => {
+    if (to.domain) event.domain = to.domain;
+    if (to.email) event.email = to.email;
+    return codec.encode(event);
+  }));
+}
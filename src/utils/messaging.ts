@@ -0,0 +1,267 @@
+// Message protocol between the popup/content scripts and the background script
+
+import {
+  AccountEventType,
+  BackgroundMessage,
+  BackgroundMessageType,
+  LoginMethod,
+  MessageReply,
+  MessageRequest,
+  MessageResponse
+} from '../types/index';
+import { PauseDuration } from './trackingSettings';
+import { NotificationStyle } from './notificationSettings';
+
+type Validator<T> = (value: unknown) => value is T;
+
+// Every login method, so payloads can be checked at runtime
+const LOGIN_METHODS: Record<LoginMethod, true> = {
+  oauth_capture: true,
+  tap_capture: true,
+  manual: true,
+  oauth: true,
+  oauth_redirect: true,
+  oauth_flow: true,
+  identity_token: true,
+  request_body: true,
+  user_added: true,
+  logout_url: true,
+  session_cookie: true,
+  signed_out_page: true
+};
+
+// Every account event type
+const ACCOUNT_EVENT_TYPES: Record<AccountEventType, true> = {
+  signup: true,
+  login: true,
+  password_reset: true,
+  email_change: true,
+  logout: true
+};
+
+// Every pause length TOGGLE_TRACKING accepts
+const PAUSE_DURATIONS: Record<PauseDuration, true> = {
+  '15m': true,
+  '1h': true,
+  restart: true,
+  tomorrow: true,
+  indefinite: true
+};
+
+// Every way detected logins can be announced
+const NOTIFICATION_STYLES: Record<NotificationStyle, true> = {
+  toast: true,
+  system: true,
+  none: true
+};
+
+const isString: Validator<string> = (value): value is string => typeof value === 'string';
+const isNumber: Validator<number> = (value): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Validator<boolean> = (value): value is boolean => typeof value === 'boolean';
+const isNone: Validator<undefined> = (value): value is undefined => value === undefined;
+export const isLoginMethod: Validator<LoginMethod> = (value): value is LoginMethod =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOGIN_METHODS, value);
+
+export const isAccountEventType: Validator<AccountEventType> = (value): value is AccountEventType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ACCOUNT_EVENT_TYPES, value);
+
+const isPauseDuration: Validator<PauseDuration> = (value): value is PauseDuration =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PAUSE_DURATIONS, value);
+
+const isNotificationStyle: Validator<NotificationStyle> = (value): value is NotificationStyle =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(NOTIFICATION_STYLES, value);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value): value is T | undefined => value === undefined || validator(value);
+}
+
+function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(validator);
+}
+
+/**
+ * Validator for an object with the given required and optional fields
+ */
+function shape<R, O = {}>(
+  required: { [K in keyof R]: Validator<R[K]> },
+  optionalFields?: { [K in keyof O]: Validator<O[K]> }
+): Validator<R & Partial<O>> {
+  return (value): value is R & Partial<O> =>
+    isRecord(value) &&
+    Object.entries(required).every(([key, validate]) => (validate as Validator<unknown>)(value[key])) &&
+    Object.entries(optionalFields || {}).every(([key, validate]) => optional(validate as Validator<unknown>)(value[key]));
+}
+
+const domainAndEmail = shape({ domain: isString, email: isString });
+
+const vaultCredentials = {
+  passphrase: isString,
+  recoveryKey: isString
+};
+
+// Payload check for every message type the background accepts
+const REQUEST_VALIDATORS: { [K in BackgroundMessageType]: Validator<MessageRequest<K>> } = {
+  GET_EMAIL_MAPPINGS: isNone,
+  CLEAR_MAPPINGS: isNone,
+  LOGIN_DETECTED: shape(
+    { email: isString, website: isString, timestamp: isNumber, url: isString },
+    { method: isLoginMethod, type: isAccountEventType }
+  ),
+  LOGOUT_DETECTED: shape({ website: isString, url: isString }),
+  GET_LOGIN_EVENTS: optional(shape({}, {
+    domain: isString,
+    email: isString,
+    type: isAccountEventType,
+    since: isNumber,
+    until: isNumber,
+    limit: isNumber
+  })),
+  ADD_EMAIL: domainAndEmail,
+  DELETE_EMAIL: domainAndEmail,
+  DELETE_DOMAIN: shape({ domain: isString }),
+  EDIT_DOMAIN: shape({ oldDomain: isString, newDomain: isString }),
+  EDIT_EMAIL: shape(
+    { domain: isString, oldEmail: isString, newEmail: isString },
+    { description: isString }
+  ),
+  GET_SITE_ACCOUNTS: shape({ hostname: isString }),
+  CHECK_NEW_ACCOUNT: domainAndEmail,
+  GET_COOKIE_JARS: optional(shape({}, { website: isString })),
+  SWITCH_ACCOUNT: shape({ website: isString, email: isString }),
+  GET_DOMAIN_GROUPS: isNone,
+  SET_DOMAIN_GROUPS: shape({
+    custom: arrayOf(shape({ id: isString, name: isString, domains: arrayOf(isString) })),
+    disabledDefaults: arrayOf(isString)
+  }),
+  GET_IDENTIFIER_FIELDS: isNone,
+  SET_IDENTIFIER_FIELDS: shape({ fields: arrayOf(isString) }),
+  GET_NOTIFICATION_STYLE: isNone,
+  SET_NOTIFICATION_STYLE: shape({ style: isNotificationStyle }),
+  GET_TRACKING_STATUS: isNone,
+  TOGGLE_TRACKING: optional(shape({}, { duration: isPauseDuration })),
+  GET_SITE_POLICY: shape({ hostname: isString }),
+  GET_SITE_RULES: isNone,
+  SET_SITE_RULE: shape({ pattern: isString, tracking: isBoolean, banner: isBoolean, formCapture: isBoolean }),
+  REMOVE_SITE_RULE: shape({ pattern: isString }),
+  PIN_EMAIL: shape({ domain: isString, email: isString, pinned: isBoolean }),
+  GET_RETENTION_POLICY: isNone,
+  SET_RETENTION_POLICY: shape({
+    maxAccountsPerDomain: isNumber,
+    maxAgeDays: isNumber,
+    maxTotalEntries: isNumber,
+    protectDescribed: isBoolean,
+    trashDays: isNumber
+  }),
+  GET_EVICTIONS: isNone,
+  CLEAR_EVICTIONS: isNone,
+  UNDO: shape({ undoId: isString }),
+  GET_TRASH: isNone,
+  RESTORE_TRASH: shape({ ids: arrayOf(isString) }),
+  EMPTY_TRASH: isNone,
+  GET_VAULT_STATUS: isNone,
+  ENABLE_VAULT: shape({ passphrase: isString, autoLockMinutes: isNumber }),
+  DISABLE_VAULT: shape({ passphrase: isString }),
+  UNLOCK_VAULT: shape({}, vaultCredentials),
+  LOCK_VAULT: isNone,
+  CHANGE_VAULT_PASSPHRASE: shape({ newPassphrase: isString }, vaultCredentials),
+  EXPORT_RECOVERY_KEY: shape({ passphrase: isString }),
+  SET_AUTO_LOCK: shape({ autoLockMinutes: isNumber })
+};
+
+/**
+ * Check that an incoming message is a known type with a valid payload
+ */
+export function isBackgroundMessage(message: unknown): message is BackgroundMessage {
+  if (!isRecord(message) || typeof message.type !== 'string') {
+    return false;
+  }
+  if (!Object.prototype.hasOwnProperty.call(REQUEST_VALIDATORS, message.type)) {
+    return false;
+  }
+  const validate = REQUEST_VALIDATORS[message.type as BackgroundMessageType] as Validator<unknown>;
+  return validate(message.data);
+}
+
+export type MessageHandler<K extends BackgroundMessageType> = (
+  data: MessageRequest<K>,
+  sender: chrome.runtime.MessageSender
+) => Promise<MessageResponse<K>>;
+
+export type MessageHandlers = { [K in BackgroundMessageType]: MessageHandler<K> };
+
+function runHandler<K extends BackgroundMessageType>(
+  handlers: MessageHandlers,
+  type: K,
+  data: MessageRequest<K>,
+  sender: chrome.runtime.MessageSender
+): Promise<MessageResponse<K>> {
+  const handler: MessageHandler<K> = handlers[type];
+  return handler(data, sender);
+}
+
+/**
+ * Build a chrome.runtime.onMessage listener that validates each message and
+ * dispatches it to its handler. Unknown message types are left to other listeners.
+ */
+export function createMessageRouter(handlers: MessageHandlers) {
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (reply: MessageReply<BackgroundMessageType>) => void
+  ): boolean => {
+    const type = isRecord(message) ? message.type : undefined;
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(REQUEST_VALIDATORS, type)) {
+      return false;
+    }
+
+    if (!isBackgroundMessage(message)) {
+      console.error('Rejected message with invalid payload:', type);
+      sendResponse({ ok: false, error: `Invalid payload for ${type}` });
+      return false;
+    }
+
+    console.log('Background received message:', message.type);
+    runHandler(handlers, message.type, message.data, sender).then(
+      response => sendResponse({ ok: true, response }),
+      error => {
+        console.error(`Error handling ${message.type}:`, error);
+        sendResponse({ ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    );
+    return true; // Keep message channel open
+  };
+}
+
+// Messages without a payload take no data argument; optional payloads may be omitted
+type RequestArgs<K extends BackgroundMessageType> = [MessageRequest<K>] extends [undefined]
+  ? []
+  : undefined extends MessageRequest<K>
+    ? [data?: MessageRequest<K>]
+    : [data: MessageRequest<K>];
+
+/**
+ * Send a typed message to the background script. Rejects if the background
+ * is unreachable, rejects the payload, or its handler throws.
+ */
+export function sendMessageToBackground<K extends BackgroundMessageType>(
+  type: K,
+  ...[data]: RequestArgs<K>
+): Promise<MessageResponse<K>> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type, data }, (reply?: MessageReply<K>) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else if (!reply) {
+        reject(new Error(`No response to ${type}`));
+      } else if (!reply.ok) {
+        reject(new Error(reply.error));
+      } else {
+        resolve(reply.response);
+      }
+    });
+  });
+}
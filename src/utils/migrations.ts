@@ -0,0 +1,357 @@
+// Versioned storage schema and migrations for Login Tracker Extension
+
+import {
+  AccountEventType,
+  AccountSession,
+  IdentityProviderId,
+  IdentityProviderLogin,
+  LoginMethod,
+  LoginMethodCounts
+} from '../types/index';
+import { DomainMappings, EmailMapping } from './storage';
+import { getPublicSuffix, getRootDomain } from './domain';
+import { isAccountEventType, isLoginMethod } from './messaging';
+
+// Storage key holding the schema version of the stored data
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Keys owned by the schema (read and written by the migration runner)
+const SCHEMA_KEYS = ['emailMappings', 'trackingSettings', 'loginEvents'];
+
+// Every identity provider a stored entry may name
+const IDENTITY_PROVIDER_IDS: Record<IdentityProviderId, true> = {
+  google: true,
+  github: true,
+  microsoft: true,
+  apple: true,
+  facebook: true,
+  oidc: true,
+  saml: true
+};
+
+/**
+ * Raw contents of chrome.storage.local as seen by migrations (unvalidated
+ * legacy data, so every field has to be checked before it is used)
+ */
+export interface StoredData {
+  [key: string]: unknown;
+}
+
+/**
+ * A single schema upgrade. `migrate` must be pure: it receives a copy of the
+ * stored object and returns the upgraded one without touching chrome APIs.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isIdentityProviderId(value: unknown): value is IdentityProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IDENTITY_PROVIDER_IDS, value);
+}
+
+// The numeric values of a { key: number } object whose keys pass `isKey`
+function readCounts<K extends string>(value: unknown, isKey: (key: unknown) => key is K): Partial<Record<K, number>> | null {
+  if (!isRecord(value)) return null;
+
+  const counts: Partial<Record<K, number>> = {};
+  for (const [key, count] of Object.entries(value)) {
+    if (isKey(key) && isNumber(count)) counts[key] = count;
+  }
+  return counts;
+}
+
+function readProvider(value: unknown): IdentityProviderLogin | null {
+  if (!isRecord(value) || !isIdentityProviderId(value.id) || typeof value.issuer !== 'string') return null;
+  return {
+    id: value.id,
+    issuer: value.issuer,
+    ...(typeof value.subject === 'string' ? { subject: value.subject } : {})
+  };
+}
+
+function readSession(value: unknown): AccountSession | null {
+  if (!isRecord(value) || !isNumber(value.startedAt)) return null;
+  return { startedAt: value.startedAt, ...(isNumber(value.endedAt) ? { endedAt: value.endedAt } : {}) };
+}
+
+/**
+ * Normalize a single mapping entry (possibly partial). Only known fields of
+ * the right type are copied.
+ */
+function normalizeEntry(entry: unknown): EmailMapping | null {
+  if (!isRecord(entry) || typeof entry.email !== 'string') {
+    return null;
+  }
+
+  const normalized: EmailMapping = {
+    email: entry.email,
+    apiUrl: typeof entry.apiUrl === 'string' ? entry.apiUrl : '',
+    timestamp: isNumber(entry.timestamp) ? entry.timestamp : 0,
+    count: isNumber(entry.count) && entry.count > 0 ? entry.count : 1
+  };
+
+  const methods = readCounts(entry.methods, isLoginMethod);
+  const accountEvents = readCounts(entry.accountEvents, isAccountEventType);
+  const provider = readProvider(entry.provider);
+  const session = readSession(entry.session);
+
+  if (typeof entry.description === 'string') normalized.description = entry.description;
+  if (typeof entry.pinned === 'boolean') normalized.pinned = entry.pinned;
+  if (methods) normalized.methods = methods;
+  if (typeof entry.firstSourceUrl === 'string') normalized.firstSourceUrl = entry.firstSourceUrl;
+  if (typeof entry.lastSourceUrl === 'string') normalized.lastSourceUrl = entry.lastSourceUrl;
+  if (provider) normalized.provider = provider;
+  if (isNumber(entry.createdAt)) normalized.createdAt = entry.createdAt;
+  if (accountEvents) normalized.accountEvents = accountEvents;
+  if (session) normalized.session = session;
+
+  return normalized;
+}
+
+// Pre-v1 domains hold a bare email, a single entry or an array of either
+function readLegacyEntries(value: unknown): unknown[] {
+  return (Array.isArray(value) ? value : [value]).map(entry => (typeof entry === 'string' ? { email: entry } : entry));
+}
+
+/**
+ * Well-formed entries of a stored emailMappings object, dropping anything
+ * else. `readEntries` lists the raw entries stored under a domain.
+ */
+function readMappings(
+  value: unknown,
+  readEntries: (entries: unknown) => unknown[] = entries => (Array.isArray(entries) ? entries : [])
+): DomainMappings {
+  const mappings: DomainMappings = {};
+
+  for (const [domain, entries] of Object.entries(isRecord(value) ? value : {})) {
+    const normalized = readEntries(entries)
+      .map(normalizeEntry)
+      .filter((entry): entry is EmailMapping => entry !== null);
+
+    if (normalized.length > 0) {
+      mappings[domain] = normalized;
+    }
+  }
+
+  return mappings;
+}
+
+/**
+ * v1: every domain maps to an array of well-formed EmailMapping entries
+ */
+function migrateToDomainArrays(data: StoredData): StoredData {
+  const mappings = readMappings(data.emailMappings, readLegacyEntries);
+  const settings = isRecord(data.trackingSettings) ? data.trackingSettings : {};
+
+  return {
+    ...data,
+    emailMappings: mappings,
+    trackingSettings: {
+      ...settings,
+      isPaused: settings.isPaused === true,
+      disabledSites: Array.isArray(settings.disabledSites) ? settings.disabledSites : []
+    }
+  };
+}
+
+/**
+ * v2: add the login event log and backfill detection provenance
+ */
+function migrateToProvenance(data: StoredData): StoredData {
+  const mappings: DomainMappings = {};
+
+  for (const [domain, entries] of Object.entries(readMappings(data.emailMappings))) {
+    mappings[domain] = entries.map(entry => {
+      const upgraded: EmailMapping = { ...entry };
+      const isManual = entry.apiUrl.startsWith('manual://');
+
+      if (!upgraded.methods && isManual) {
+        upgraded.methods = { user_added: entry.count };
+      }
+      if (!isManual && entry.apiUrl) {
+        if (!upgraded.firstSourceUrl) upgraded.firstSourceUrl = entry.apiUrl;
+        if (!upgraded.lastSourceUrl) upgraded.lastSourceUrl = entry.apiUrl;
+      }
+
+      return upgraded;
+    });
+  }
+
+  return {
+    ...data,
+    emailMappings: mappings,
+    loginEvents: Array.isArray(data.loginEvents) ? data.loginEvents : []
+  };
+}
+
+/**
+ * v3: turn the never-used disabledSites list into per-site rules
+ */
+function migrateToSiteRules(data: StoredData): StoredData {
+  const settings = isRecord(data.trackingSettings) ? data.trackingSettings : {};
+  const { disabledSites, ...rest } = settings;
+  const existingRules = Array.isArray(settings.siteRules) ? settings.siteRules : [];
+
+  const disabledRules = (Array.isArray(disabledSites) ? disabledSites : [])
+    .filter((site: unknown): site is string => typeof site === 'string' && site.trim() !== '')
+    .map((site: string) => ({ pattern: site.trim().toLowerCase(), tracking: false, banner: false, formCapture: false }));
+
+  return {
+    ...data,
+    trackingSettings: {
+      ...rest,
+      isPaused: settings.isPaused === true,
+      siteRules: [...existingRules, ...disabledRules]
+    }
+  };
+}
+
+/**
+ * Storage key for data kept under a pre-PSL key. Keys the old heuristic cut
+ * down to a public suffix ('com.cn', 'github.io') are split by the site the
+ * login came from, when it is known.
+ */
+function getPublicSuffixDomain(domain: string, url: unknown): string {
+  const root = getRootDomain(domain);
+  if (root !== getPublicSuffix(root) || typeof url !== 'string') return root;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return root;
+    return getRootDomain(parsed.hostname) || root;
+  } catch (error) {
+    return root;
+  }
+}
+
+/**
+ * Combine two entries for the same email that now share a storage key
+ */
+function mergeEntries(a: EmailMapping, b: EmailMapping): EmailMapping {
+  const [older, newer] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+  const merged: EmailMapping = { ...older, ...newer, count: a.count + b.count };
+
+  const firstSourceUrl = older.firstSourceUrl || newer.firstSourceUrl;
+  if (firstSourceUrl) merged.firstSourceUrl = firstSourceUrl;
+  if (a.pinned || b.pinned) merged.pinned = true;
+  if (a.createdAt !== undefined || b.createdAt !== undefined) {
+    merged.createdAt = Math.min(a.createdAt ?? Infinity, b.createdAt ?? Infinity);
+  }
+
+  if (a.methods || b.methods) {
+    const methods: LoginMethodCounts = { ...older.methods };
+    for (const [method, count] of Object.entries(newer.methods || {})) {
+      const key = method as LoginMethod;
+      methods[key] = (methods[key] || 0) + (count || 0);
+    }
+    merged.methods = methods;
+  }
+
+  if (a.accountEvents || b.accountEvents) {
+    const accountEvents = { ...older.accountEvents };
+    for (const [type, time] of Object.entries(newer.accountEvents || {})) {
+      const key = type as AccountEventType;
+      accountEvents[key] = Math.max(accountEvents[key] ?? 0, time ?? 0);
+    }
+    merged.accountEvents = accountEvents;
+  }
+
+  return merged;
+}
+
+/**
+ * v4: re-key mappings and events by Public Suffix List root domain, merging
+ * entries for the same email that end up under one key
+ */
+function migrateToPublicSuffixKeys(data: StoredData): StoredData {
+  const mappings: DomainMappings = {};
+
+  for (const [domain, entries] of Object.entries(readMappings(data.emailMappings))) {
+    for (const entry of entries) {
+      const key = getPublicSuffixDomain(domain, entry.lastSourceUrl || entry.apiUrl);
+      const existing = mappings[key] || [];
+      const index = existing.findIndex(candidate => candidate.email === entry.email);
+
+      if (index >= 0) {
+        existing[index] = mergeEntries(existing[index], entry);
+      } else {
+        existing.push(entry);
+      }
+      mappings[key] = existing;
+    }
+  }
+
+  const loginEvents = (Array.isArray(data.loginEvents) ? data.loginEvents : []).map(event =>
+    isRecord(event) && typeof event.domain === 'string'
+      ? { ...event, domain: getPublicSuffixDomain(event.domain, event.url) }
+      : event
+  );
+
+  return { ...data, emailMappings: mappings, loginEvents };
+}
+
+/**
+ * All migrations, in ascending version order
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Normalize domain mappings to arrays', migrate: migrateToDomainArrays },
+  { version: 2, description: 'Add login event log and provenance fields', migrate: migrateToProvenance },
+  { version: 3, description: 'Convert disabled sites to per-site rules', migrate: migrateToSiteRules },
+  { version: 4, description: 'Re-key domains by Public Suffix List root domain', migrate: migrateToPublicSuffixKeys }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run every migration newer than `fromVersion` over the stored data
+ */
+export function migrateStoredData(
+  data: StoredData,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): { data: StoredData; version: number } {
+  let current: StoredData = JSON.parse(JSON.stringify(data));
+  let version = fromVersion;
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    current = migration.migrate(current);
+    version = migration.version;
+  }
+
+  return { data: current, version };
+}
+
+/**
+ * Upgrade chrome.storage.local in place to the current schema version
+ */
+export async function runStorageMigrations(): Promise<number> {
+  const stored = await chrome.storage.local.get([...SCHEMA_KEYS, SCHEMA_VERSION_KEY]);
+  const fromVersion = typeof stored[SCHEMA_VERSION_KEY] === 'number' ? stored[SCHEMA_VERSION_KEY] : 0;
+
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    console.log('Storage schema is up to date:', fromVersion);
+    return fromVersion;
+  }
+
+  const data: StoredData = {};
+  SCHEMA_KEYS.forEach(key => {
+    if (stored[key] !== undefined) data[key] = stored[key];
+  });
+
+  const result = migrateStoredData(data, fromVersion);
+
+  await chrome.storage.local.set({ ...result.data, [SCHEMA_VERSION_KEY]: result.version });
+  console.log('Storage schema migrated:', { from: fromVersion, to: result.version });
+  return result.version;
+}
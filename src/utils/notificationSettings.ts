@@ -0,0 +1,36 @@
+// How detected logins are announced: a toast injected into the page, a system
+// notification raised by the background, or not at all
+
+// Storage key for the chosen style
+const NOTIFICATION_STYLE_KEY = 'notificationStyle';
+
+export type NotificationStyle = 'toast' | 'system' | 'none';
+
+// System notifications survive login redirects and strict-CSP pages
+export const DEFAULT_NOTIFICATION_STYLE: NotificationStyle = 'system';
+
+/**
+ * Get how detected logins are announced
+ */
+export async function getNotificationStyle(): Promise<NotificationStyle> {
+  try {
+    const result = await chrome.storage.local.get([NOTIFICATION_STYLE_KEY]);
+    return result[NOTIFICATION_STYLE_KEY] || DEFAULT_NOTIFICATION_STYLE;
+  } catch (error) {
+    console.error('Error getting notification style:', error);
+    return DEFAULT_NOTIFICATION_STYLE;
+  }
+}
+
+/**
+ * Save how detected logins are announced
+ */
+export async function saveNotificationStyle(style: NotificationStyle): Promise<boolean> {
+  try {
+    await chrome.storage.local.set({ [NOTIFICATION_STYLE_KEY]: style });
+    return true;
+  } catch (error) {
+    console.error('Error saving notification style:', error);
+    return false;
+  }
+}
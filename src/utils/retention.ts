@@ -0,0 +1,217 @@
+// Retention policy for stored email mappings
+
+import { DomainMappings, EmailMapping } from './storage';
+import { enqueueWrite, updateStorageValue } from './writeQueue';
+import { IndexedRecord, getRecordCodec } from './vault';
+
+// Storage keys for the policy and the log of evicted entries
+const POLICY_KEY = 'retentionPolicy';
+const EVICTION_LOG_KEY = 'evictionLog';
+
+// Keep at most this many eviction records for the popup
+const MAX_EVICTION_LOG = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits applied to stored mappings. A value of 0 disables that limit.
+ */
+export interface RetentionPolicy {
+  maxAccountsPerDomain: number;
+  maxAgeDays: number;
+  maxTotalEntries: number;
+  protectDescribed: boolean;
+  // Days deleted entries stay in the trash before being purged
+  trashDays: number;
+}
+
+export type EvictionReason = 'domain_limit' | 'expired' | 'global_budget';
+
+export interface EvictionRecord {
+  domain: string;
+  email: string;
+  reason: EvictionReason;
+  lastUsed: number;
+  evictedAt: number;
+}
+
+/**
+ * An eviction record as kept in chrome.storage, encoded by the vault codec
+ * (sealed, with hashed domain and email, while the vault is on)
+ */
+type StoredEviction = EvictionRecord & IndexedRecord;
+
+export interface RetentionResult {
+  mappings: DomainMappings;
+  evicted: EvictionRecord[];
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAccountsPerDomain: 10,
+  maxAgeDays: 0,
+  maxTotalEntries: 0,
+  protectDescribed: true,
+  trashDays: 30
+};
+
+/**
+ * Check whether an entry must never be evicted
+ */
+export function isProtectedEntry(entry: EmailMapping, policy: RetentionPolicy): boolean {
+  return entry.pinned === true || (policy.protectDescribed && !!entry.description);
+}
+
+/**
+ * Apply the retention policy to a set of mappings (pure)
+ */
+export function applyRetentionPolicy(
+  mappings: DomainMappings,
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionResult {
+  const result: DomainMappings = {};
+  const evicted: EvictionRecord[] = [];
+
+  const evict = (domain: string, entry: EmailMapping, reason: EvictionReason) => {
+    evicted.push({ domain, email: entry.email, reason, lastUsed: entry.timestamp, evictedAt: now });
+  };
+
+  // Expire entries not used within maxAgeDays
+  for (const [domain, entries] of Object.entries(mappings)) {
+    result[domain] = entries.filter(entry => {
+      const expired = policy.maxAgeDays > 0 &&
+        now - entry.timestamp > policy.maxAgeDays * DAY_MS &&
+        !isProtectedEntry(entry, policy);
+      if (expired) evict(domain, entry, 'expired');
+      return !expired;
+    });
+  }
+
+  // Enforce the per-domain account limit, dropping the least recently used first
+  if (policy.maxAccountsPerDomain > 0) {
+    for (const domain of Object.keys(result)) {
+      const candidates = result[domain]
+        .filter(entry => !isProtectedEntry(entry, policy))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+      while (result[domain].length > policy.maxAccountsPerDomain && candidates.length > 0) {
+        const entry = candidates.shift()!;
+        result[domain] = result[domain].filter(existing => existing !== entry);
+        evict(domain, entry, 'domain_limit');
+      }
+    }
+  }
+
+  // Enforce the global entry budget across all domains
+  if (policy.maxTotalEntries > 0) {
+    let total = Object.values(result).reduce((sum, entries) => sum + entries.length, 0);
+    const candidates = Object.entries(result)
+      .flatMap(([domain, entries]) => entries.map(entry => ({ domain, entry })))
+      .filter(({ entry }) => !isProtectedEntry(entry, policy))
+      .sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+
+    while (total > policy.maxTotalEntries && candidates.length > 0) {
+      const { domain, entry } = candidates.shift()!;
+      result[domain] = result[domain].filter(existing => existing !== entry);
+      evict(domain, entry, 'global_budget');
+      total -= 1;
+    }
+  }
+
+  for (const domain of Object.keys(result)) {
+    if (result[domain].length === 0) {
+      delete result[domain];
+    }
+  }
+
+  return { mappings: result, evicted };
+}
+
+/**
+ * Get the stored retention policy (falls back to defaults)
+ */
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  try {
+    const result = await chrome.storage.local.get([POLICY_KEY]);
+    return { ...DEFAULT_RETENTION_POLICY, ...(result[POLICY_KEY] || {}) };
+  } catch (error) {
+    console.error('Error getting retention policy:', error);
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+}
+
+/**
+ * Save the retention policy
+ */
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<boolean> {
+  try {
+    await chrome.storage.local.set({ [POLICY_KEY]: policy });
+    return true;
+  } catch (error) {
+    console.error('Error saving retention policy:', error);
+    return false;
+  }
+}
+
+/**
+ * Append evicted entries to the log shown in the popup
+ */
+export async function recordEvictions(evicted: EvictionRecord[]): Promise<void> {
+  if (evicted.length === 0) return;
+
+  try {
+    const codec = await getRecordCodec();
+    const stored = await Promise.all(evicted.map(record => codec.encode({ ...record, timestamp: record.evictedAt })));
+    await updateStorageValue<IndexedRecord[]>(EVICTION_LOG_KEY, log =>
+      [...stored, ...(log || [])].slice(0, MAX_EVICTION_LOG)
+    );
+    console.log('Entries evicted by retention policy:', evicted);
+  } catch (error) {
+    console.error('Error recording evictions:', error);
+  }
+}
+
+/**
+ * Get evictions not yet acknowledged in the popup (most recent first).
+ * Empty while the vault is locked.
+ */
+export async function getEvictionLog(): Promise<EvictionRecord[]> {
+  try {
+    const codec = await getRecordCodec();
+    const result = await chrome.storage.local.get([EVICTION_LOG_KEY]);
+    const stored: IndexedRecord[] = result[EVICTION_LOG_KEY] || [];
+    const records = await Promise.all(stored.map(record => codec.decode<StoredEviction>(record)));
+    return records.map(({ timestamp, ...record }) => record);
+  } catch (error) {
+    console.error('Error getting eviction log:', error);
+    return [];
+  }
+}
+
+/**
+ * Clear the eviction log once the user has seen it
+ */
+export async function clearEvictionLog(): Promise<boolean> {
+  try {
+    await chrome.storage.local.set({ [EVICTION_LOG_KEY]: [] });
+    return true;
+  } catch (error) {
+    console.error('Error clearing eviction log:', error);
+    return false;
+  }
+}
+
+/**
+ * Re-encode the eviction log when the vault is turned on or off
+ */
+export async function convertEvictionLog(convert: (record: IndexedRecord) => Promise<IndexedRecord>): Promise<void> {
+  await enqueueWrite(async () => {
+    const result = await chrome.storage.local.get([EVICTION_LOG_KEY]);
+    const stored: IndexedRecord[] = result[EVICTION_LOG_KEY] || [];
+    // Records logged before the log was encoded have no timestamp of their own
+    const converted = await Promise.all(stored.map(record =>
+      convert({ ...record, timestamp: record.timestamp ?? (record as StoredEviction).evictedAt })
+    ));
+    await chrome.storage.local.set({ [EVICTION_LOG_KEY]: converted });
+  });
+}
@@ -0,0 +1,34 @@
+// Sign-in sessions per account: which accounts are signed in, and for how long
+
+import { EmailMapping } from './storage';
+
+// An open session older than this is flagged as left open
+export const STALE_SESSION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Check whether an account is signed in (its latest session hasn't ended)
+ */
+export function isSessionOpen(entry: EmailMapping): boolean {
+  return !!entry.session && entry.session.endedAt === undefined;
+}
+
+/**
+ * Check whether an account has been signed in long enough to flag
+ */
+export function isSessionStale(entry: EmailMapping, now: number = Date.now()): boolean {
+  const session = entry.session;
+  return !!session && session.endedAt === undefined && now - session.startedAt > STALE_SESSION_MS;
+}
+
+/**
+ * Short duration for session badges ('45m', '3h', '12d')
+ */
+export function formatSessionDuration(ms: number): string {
+  if (ms < HOUR_MS) return `${Math.max(1, Math.floor(ms / MINUTE_MS))}m`;
+  if (ms < DAY_MS) return `${Math.floor(ms / HOUR_MS)}h`;
+  return `${Math.floor(ms / DAY_MS)}d`;
+}
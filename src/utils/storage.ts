@@ -1,6 +1,59 @@
 // Storage utilities for Login Tracker Extension
 
-import { LoginData, WebsiteLoginHistory } from '../types/index';
+import { AccountEventTimes, AccountSession, IdentityProviderLogin, LoginData, LoginMethod, LoginMethodCounts, WebsiteLoginHistory } from '../types/index';
+import {
+  NewLoginEvent,
+  applyLoginEvent,
+  createLoginEvent,
+  deleteLoginEventsInTransaction,
+  readLoginEventsInTransaction,
+  reassignStoredLoginEvents
+} from './loginEvents';
+import { EvictionRecord, applyRetentionPolicy, convertEvictionLog, getRetentionPolicy, recordEvictions } from './retention';
+import {
+  COOKIE_JARS_STORE,
+  EVENTS_STORE,
+  MAPPINGS_STORE,
+  META_STORE,
+  TRASH_STORE,
+  bumpRevisionInTransaction,
+  readModifyWrite,
+  readRevisionInTransaction,
+  requestToPromise,
+  runTransaction,
+  writeTransaction
+} from './database';
+import { enqueueWrite } from './writeQueue';
+import { publishDataChange } from './changeFeed';
+import { getCanonicalDomain, getEquivalentDomains } from './domainGroups';
+import { parseHostname } from './domain';
+import { isSessionOpen } from './sessions';
+import {
+  IndexedRecord,
+  RecordCodec,
+  VAULT_CONFIG_META_KEY,
+  VaultConfig,
+  clearPendingLogins,
+  createRecordCodec,
+  createVault,
+  drainPendingLogins,
+  getRecordCodec,
+  isVaultLockedError,
+  lockVault,
+  openVaultSession,
+  queuePendingLogin,
+  unwrapSecretWithPassphrase
+} from './vault';
+import {
+  TrashBatch,
+  TrashItem,
+  addToTrashBatch,
+  createTrashBatch,
+  groupEventsByRecord,
+  putTrashBatchInTransaction,
+  readTrashBatchInTransaction,
+  readTrashItemsInTransaction
+} from './trash';
 
 export interface EmailMapping {
   email: string;
@@ -8,6 +61,20 @@ export interface EmailMapping {
   timestamp: number;
   count: number;
   description?: string;
+  // Never evicted by the retention policy
+  pinned?: boolean;
+  // Detection provenance
+  methods?: LoginMethodCounts;
+  firstSourceUrl?: string;
+  lastSourceUrl?: string;
+  // Identity provider of the most recent "Sign in with ..." login
+  provider?: IdentityProviderLogin;
+  // When the account was created (earliest signup seen)
+  createdAt?: number;
+  // When each non-login event (signup, password reset, ...) was last seen
+  accountEvents?: AccountEventTimes;
+  // Latest sign-in session on this device (open while endedAt is absent)
+  session?: AccountSession;
 }
 
 export interface DomainMappings {
@@ -32,52 +99,372 @@ export interface StorageStats {
   }>;
 }
 
-// Storage key for login history
-const STORAGE_KEY = 'emailMappings';
+/**
+ * Mappings together with the data revision they were read at
+ */
+export interface MappingsSnapshot {
+  mappings: DomainMappings;
+  revision: number;
+}
+
+/**
+ * Outcome of a mutation requested by the popup or content script
+ */
+export interface MutationResult {
+  success: boolean;
+  error?: string;
+  // Trash batch to restore when the user clicks undo
+  undoId?: string;
+}
+
+/**
+ * EmailMapping with its domain, as encoded into IndexedDB (keyed by domain + email)
+ */
+export interface StoredEmailMapping extends EmailMapping {
+  domain: string;
+}
+
+/**
+ * Result of turning the vault on: the recovery key to show the user once
+ */
+export interface VaultSetupResult extends MutationResult {
+  recoveryKey?: string;
+}
+
+function toStoredMapping(domain: string, entry: EmailMapping): StoredEmailMapping {
+  return { ...entry, domain };
+}
+
+function fromStoredMapping(record: StoredEmailMapping): EmailMapping {
+  const { domain, ...entry } = record;
+  return entry;
+}
+
+/**
+ * Primary key of an encoded record
+ */
+function recordKey(record: IndexedRecord): [string, string] {
+  return [record.domain, record.email];
+}
+
+/**
+ * Decode records read from the mappings store
+ */
+function decodeMappings(codec: RecordCodec, records: IndexedRecord[]): Promise<StoredEmailMapping[]> {
+  return Promise.all(records.map(record => codec.decode<StoredEmailMapping>(record)));
+}
+
+/**
+ * Encode a domain's entries for the mappings store
+ */
+function encodeDomain(codec: RecordCodec, domain: string, entries: EmailMapping[]): Promise<IndexedRecord[]> {
+  return Promise.all(entries.map(entry => codec.encode(toStoredMapping(domain, entry))));
+}
+
+/**
+ * Encode every domain's entries for the mappings store
+ */
+async function encodeMappings(codec: RecordCodec, mappings: DomainMappings): Promise<IndexedRecord[]> {
+  const domains = await Promise.all(
+    Object.entries(mappings).map(([domain, entries]) => encodeDomain(codec, domain, entries))
+  );
+  return domains.flat();
+}
+
+/**
+ * Group stored records by domain (most recently used first)
+ */
+function groupByDomain(records: StoredEmailMapping[]): DomainMappings {
+  const mappings: DomainMappings = {};
+
+  records
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(record => {
+      if (!mappings[record.domain]) {
+        mappings[record.domain] = [];
+      }
+      mappings[record.domain].push(fromStoredMapping(record));
+    });
+
+  return mappings;
+}
+
+/**
+ * Read a domain's encoded records inside an open transaction
+ */
+function readDomainInTransaction(transaction: IDBTransaction, domainKey: string): Promise<IndexedRecord[]> {
+  return requestToPromise<IndexedRecord[]>(
+    transaction.objectStore(MAPPINGS_STORE).index('domain').getAll(domainKey)
+  );
+}
+
+/**
+ * Read every encoded record inside an open transaction
+ */
+function readAllInTransaction(transaction: IDBTransaction): Promise<IndexedRecord[]> {
+  return requestToPromise<IndexedRecord[]>(transaction.objectStore(MAPPINGS_STORE).getAll());
+}
+
+/**
+ * Replace encoded records inside an open transaction, deleting the previous
+ * ones that are not part of the new set
+ */
+function replaceRecordsInTransaction(
+  transaction: IDBTransaction,
+  previous: IndexedRecord[],
+  next: IndexedRecord[]
+): void {
+  const store = transaction.objectStore(MAPPINGS_STORE);
+  const kept = new Set(next.map(record => recordKey(record).join('\n')));
+
+  previous
+    .filter(record => !kept.has(recordKey(record).join('\n')))
+    .forEach(record => store.delete(recordKey(record)));
+  next.forEach(record => store.put(record));
+}
+
+/**
+ * Clear the mappings store and write every record
+ */
+async function replaceAllInTransaction(transaction: IDBTransaction, records: IndexedRecord[]): Promise<void> {
+  const store = transaction.objectStore(MAPPINGS_STORE);
+  await requestToPromise(store.clear());
+  records.forEach(record => store.put(record));
+}
+
+/**
+ * Record a login: append it to the event log and update the derived mapping.
+ * While the vault is locked the login is sealed and replayed on unlock.
+ */
+export async function recordLogin(input: NewLoginEvent): Promise<boolean> {
+  try {
+    const policy = await getRetentionPolicy();
+    const codec = await getRecordCodec();
+    const event = createLoginEvent({ ...input, domain: await getCanonicalDomain(input.domain) });
+    const domainKey = await codec.indexKey(event.domain);
+
+    const evicted = await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE],
+      transaction => readDomainInTransaction(transaction, domainKey),
+      async records => {
+        const current = await decodeMappings(codec, records);
+        const updated = applyLoginEvent({ [event.domain]: current.map(fromStoredMapping) }, event);
+
+        // The global budget needs every domain, so it is checked separately below
+        const result = applyRetentionPolicy(updated, { ...policy, maxTotalEntries: 0 });
+        return {
+          previous: records,
+          next: await encodeDomain(codec, event.domain, result.mappings[event.domain] || []),
+          event: await codec.encode(event),
+          evicted: result.evicted,
+          evictedKeys: await encodeEvictionKeys(codec, result.evicted)
+        };
+      },
+      async (transaction, prepared) => {
+        await trashEvictedInTransaction(transaction, prepared.previous, prepared.evictedKeys);
+        transaction.objectStore(EVENTS_STORE).add(prepared.event);
+        replaceRecordsInTransaction(transaction, prepared.previous, prepared.next);
+        return prepared.evicted;
+      }
+    );
+
+    await recordEvictions(evicted);
+    if (policy.maxTotalEntries > 0 && await countEmailMappings() > policy.maxTotalEntries) {
+      await enforceRetention();
+    }
+
+    console.log('Login recorded:', { domain: event.domain, email: event.email, method: event.method });
+    return true;
+  } catch (error) {
+    if (isVaultLockedError(error)) {
+      console.log('Vault is locked, queueing login until unlock');
+      return queuePendingLogin({ ...input, timestamp: input.timestamp ?? Date.now() });
+    }
+    console.error('Error recording login:', error);
+    return false;
+  }
+}
+
+/**
+ * Record a logout under the exact domain an entry is stored under (which need
+ * not be the canonical one recordLogin would use). Returns whether an open
+ * session was closed.
+ */
+export async function recordLogout(domain: string, email: string, url: string, method: LoginMethod): Promise<boolean> {
+  try {
+    const codec = await getRecordCodec();
+    const event = { ...createLoginEvent({ domain, email, url, method, type: 'logout' }), domain };
+    const domainKey = await codec.indexKey(domain);
+
+    const closed = await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE],
+      transaction => readDomainInTransaction(transaction, domainKey),
+      async records => {
+        const current = (await decodeMappings(codec, records)).map(fromStoredMapping);
+        const entry = current.find(candidate => candidate.email === email);
+        if (!entry || !isSessionOpen(entry)) return null;
+
+        const updated = applyLoginEvent({ [domain]: current }, event)[domain] || [];
+        const after = updated.find(candidate => candidate.email === email);
+        if (!after || isSessionOpen(after)) return null;
+
+        return {
+          previous: records,
+          next: await encodeDomain(codec, domain, updated),
+          event: await codec.encode(event)
+        };
+      },
+      async (transaction, prepared) => {
+        if (!prepared) return false;
+        transaction.objectStore(EVENTS_STORE).add(prepared.event);
+        replaceRecordsInTransaction(transaction, prepared.previous, prepared.next);
+        return true;
+      }
+    );
+
+    if (closed) {
+      console.log('Logout recorded:', { domain, email, method });
+    }
+    return closed;
+  } catch (error) {
+    if (isVaultLockedError(error)) {
+      console.log('Vault is locked, not recording logout');
+      return false;
+    }
+    console.error('Error recording logout:', error);
+    return false;
+  }
+}
+
+/**
+ * Record the logins that were queued while the vault was locked (ones that
+ * fail to record stay queued)
+ */
+export async function replayPendingLogins(): Promise<number> {
+  try {
+    const replayed = await drainPendingLogins<NewLoginEvent>(login => recordLogin(login));
+    if (replayed > 0) {
+      console.log('Replayed logins queued while locked:', replayed);
+    }
+    return replayed;
+  } catch (error) {
+    console.error('Error replaying queued logins:', error);
+    return 0;
+  }
+}
+
+/**
+ * Index keys (domain, email) of evicted entries
+ */
+function encodeEvictionKeys(codec: RecordCodec, evicted: EvictionRecord[]): Promise<[string, string][]> {
+  return Promise.all(evicted.map(async (eviction): Promise<[string, string]> =>
+    [await codec.indexKey(eviction.domain), await codec.indexKey(eviction.email)]
+  ));
+}
 
 /**
- * Save email mapping for a domain (only keep last used email per domain)
+ * Move evicted entries and their login history to the trash inside an open
+ * transaction, so an eviction can be restored like a deletion
+ */
+async function trashEvictedInTransaction(
+  transaction: IDBTransaction,
+  records: IndexedRecord[],
+  keys: [string, string][]
+): Promise<void> {
+  if (keys.length === 0) return;
+
+  const byKey = new Map(records.map(record => [recordKey(record).join('\n'), record]));
+  const batch = createTrashBatch();
+  for (const [domainKey, emailKey] of keys) {
+    const record = byKey.get(`${domainKey}\n${emailKey}`);
+    if (!record) continue;
+
+    addToTrashBatch(batch, 'deleted', record, await readLoginEventsInTransaction(transaction, domainKey, emailKey));
+    transaction.objectStore(MAPPINGS_STORE).delete([domainKey, emailKey]);
+    await deleteLoginEventsInTransaction(transaction, domainKey, emailKey);
+  }
+  putTrashBatchInTransaction(transaction, batch);
+}
+
+/**
+ * Apply the retention policy to stored mappings and log what was evicted
+ */
+export async function enforceRetention(): Promise<EvictionRecord[]> {
+  try {
+    const policy = await getRetentionPolicy();
+    const codec = await getRecordCodec();
+
+    const evicted = await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE],
+      readAllInTransaction,
+      async records => {
+        const result = applyRetentionPolicy(groupByDomain(await decodeMappings(codec, records)), policy);
+        return { records, evicted: result.evicted, keys: await encodeEvictionKeys(codec, result.evicted) };
+      },
+      async (transaction, prepared) => {
+        await trashEvictedInTransaction(transaction, prepared.records, prepared.keys);
+        return prepared.evicted;
+      }
+    );
+
+    await recordEvictions(evicted);
+    return evicted;
+  } catch (error) {
+    if (isVaultLockedError(error)) {
+      console.log('Vault is locked, skipping retention sweep');
+      return [];
+    }
+    console.error('Error enforcing retention policy:', error);
+    return [];
+  }
+}
+
+/**
+ * Save email mapping for a domain
  */
 export async function saveEmailMapping(
   domain: string,
   email: string,
   apiUrl: string
 ): Promise<boolean> {
-  try {
-    const mappings = await getEmailMappings();
+  return recordLogin({ domain, email, url: apiUrl });
+}
 
-    if (!mappings[domain]) {
-      mappings[domain] = [];
-    }
+/**
+ * Read all mappings and the revision they belong to, for a later compare-and-swap
+ */
+export async function getMappingsSnapshot(): Promise<MappingsSnapshot> {
+  const codec = await getRecordCodec();
+  const snapshot = await runTransaction([MAPPINGS_STORE, META_STORE], 'readonly', async transaction => ({
+    records: await readAllInTransaction(transaction),
+    revision: await readRevisionInTransaction(transaction)
+  }));
+  return { mappings: groupByDomain(await decodeMappings(codec, snapshot.records)), revision: snapshot.revision };
+}
 
-    // Check if email already exists for this domain
-    const existingIndex = mappings[domain].findIndex(entry => entry.email === email);
-
-    if (existingIndex >= 0) {
-      // Update existing entry
-      mappings[domain][existingIndex].timestamp = Date.now();
-      mappings[domain][existingIndex].count += 1;
-      mappings[domain][existingIndex].apiUrl = apiUrl; // Update with latest API URL
-    } else {
-      // Add new entry (track every login, don't replace)
-      mappings[domain].unshift({
-        email: email,
-        apiUrl: apiUrl,
-        timestamp: Date.now(),
-        count: 1
-      });
+/**
+ * Replace all mappings only if nothing was written since `expectedRevision`.
+ * Returns false when another writer got there first; re-read and retry.
+ */
+export async function compareAndSwapMappings(expectedRevision: number, mappings: DomainMappings): Promise<boolean> {
+  try {
+    const records = await encodeMappings(await getRecordCodec(), mappings);
+    return await enqueueWrite(async () => {
+      const revision = await runTransaction([MAPPINGS_STORE, META_STORE], 'readwrite', async transaction => {
+        if (await readRevisionInTransaction(transaction) !== expectedRevision) {
+          return null;
+        }
 
-      // Keep only last 10 emails per domain to avoid storage bloat
-      if (mappings[domain].length > 10) {
-        mappings[domain] = mappings[domain].slice(0, 10);
-      }
-    }
+        await replaceAllInTransaction(transaction, records);
+        return bumpRevisionInTransaction(transaction);
+      });
 
-    await chrome.storage.local.set({ [STORAGE_KEY]: mappings });
-    console.log('Email mapping saved:', { domain, email });
-    return true;
+      if (revision === null) return false;
+      await publishDataChange(revision);
+      return true;
+    });
   } catch (error) {
-    console.error('Error saving email mapping:', error);
+    console.error('Error swapping email mappings:', error);
     return false;
   }
 }
@@ -87,8 +474,9 @@ export async function saveEmailMapping(
  */
 export async function getEmailMappings(): Promise<DomainMappings> {
   try {
-    const result = await chrome.storage.local.get([STORAGE_KEY]);
-    return result[STORAGE_KEY] || {};
+    const codec = await getRecordCodec();
+    const records = await runTransaction(MAPPINGS_STORE, 'readonly', readAllInTransaction);
+    return groupByDomain(await decodeMappings(codec, records));
   } catch (error) {
     console.error('Error getting email mappings:', error);
     return {};
@@ -100,14 +488,409 @@ export async function getEmailMappings(): Promise<DomainMappings> {
  */
 export async function getEmailMappingsForDomain(domain: string): Promise<EmailMapping[]> {
   try {
-    const mappings = await getEmailMappings();
-    return mappings[domain] || [];
+    const codec = await getRecordCodec();
+    const domainKey = await codec.indexKey(domain);
+    const records = await runTransaction(MAPPINGS_STORE, 'readonly', transaction =>
+      readDomainInTransaction(transaction, domainKey)
+    );
+    return groupByDomain(await decodeMappings(codec, records))[domain] || [];
   } catch (error) {
     console.error('Error getting email mappings for domain:', error);
     return [];
   }
 }
 
+/**
+ * Get every entry stored under a site's equivalent domains, with the domain
+ * each one is stored under (an email may appear under several)
+ */
+export async function getStoredMappingsForSite(hostname: string): Promise<StoredEmailMapping[]> {
+  const stored: StoredEmailMapping[] = [];
+  for (const domain of await getEquivalentDomains(hostname)) {
+    for (const entry of await getEmailMappingsForDomain(domain)) {
+      stored.push(toStoredMapping(domain, entry));
+    }
+  }
+  return stored;
+}
+
+/**
+ * Get the accounts for a site across its equivalent domains (most recent first,
+ * one entry per email)
+ */
+export async function getEmailMappingsForSite(hostname: string): Promise<EmailMapping[]> {
+  const byEmail = new Map<string, EmailMapping>();
+
+  for (const { domain, ...entry } of await getStoredMappingsForSite(hostname)) {
+    const existing = byEmail.get(entry.email);
+    if (!existing || entry.timestamp > existing.timestamp) {
+      byEmail.set(entry.email, entry);
+    }
+  }
+
+  return Array.from(byEmail.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Count stored email mappings across all domains (works while locked)
+ */
+export async function countEmailMappings(): Promise<number> {
+  try {
+    return await runTransaction(MAPPINGS_STORE, 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(MAPPINGS_STORE).count())
+    );
+  } catch (error) {
+    console.error('Error counting email mappings:', error);
+    return 0;
+  }
+}
+
+/**
+ * Storage key for a domain typed by the user (or a URL pasted in its place),
+ * resolved the way recordLogin resolves detected hostnames
+ */
+async function getStorageDomain(input: string): Promise<string> {
+  const hostname = parseHostname(input);
+  return hostname ? getCanonicalDomain(hostname) : '';
+}
+
+/**
+ * Manually add an email to a domain (stored under the domain's storage key)
+ */
+export async function addEmailMapping(input: string, email: string): Promise<MutationResult> {
+  try {
+    const domain = await getStorageDomain(input);
+    if (!domain) {
+      return { success: false, error: 'Invalid domain' };
+    }
+
+    const codec = await getRecordCodec();
+    const record = await codec.encode(toStoredMapping(domain, {
+      email: email,
+      apiUrl: `manual://${domain}`,
+      timestamp: Date.now(),
+      count: 1,
+      methods: { user_added: 1 }
+    }));
+
+    const added = await writeTransaction([MAPPINGS_STORE], async transaction => {
+      const store = transaction.objectStore(MAPPINGS_STORE);
+      if (await requestToPromise(store.getKey(recordKey(record))) !== undefined) {
+        return false;
+      }
+
+      store.put(record);
+      return true;
+    });
+
+    if (!added) {
+      return { success: false, error: 'Email already exists for this domain' };
+    }
+
+    await enforceRetention();
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding email mapping:', error);
+    return { success: false, error: mutationError(error, 'Failed to add email') };
+  }
+}
+
+/**
+ * Move one email (and its login history) to the trash
+ */
+export async function deleteEmailMapping(domain: string, email: string): Promise<MutationResult> {
+  try {
+    const codec = await getRecordCodec();
+    const domainKey = await codec.indexKey(domain);
+    const emailKey = await codec.indexKey(email);
+
+    return await writeTransaction([MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE], async transaction => {
+      const store = transaction.objectStore(MAPPINGS_STORE);
+      const record = await requestToPromise<IndexedRecord | undefined>(store.get([domainKey, emailKey]));
+      if (!record) {
+        return { success: false, error: 'Email not found' };
+      }
+
+      const batch = createTrashBatch();
+      addToTrashBatch(batch, 'deleted', record, await readLoginEventsInTransaction(transaction, domainKey, emailKey));
+
+      store.delete([domainKey, emailKey]);
+      await deleteLoginEventsInTransaction(transaction, domainKey, emailKey);
+      return withUndo(putTrashBatchInTransaction(transaction, batch));
+    });
+  } catch (error) {
+    console.error('Error deleting email mapping:', error);
+    return { success: false, error: mutationError(error, 'Failed to delete email') };
+  }
+}
+
+/**
+ * Move every email (and its history) from one domain to another (the new
+ * domain is resolved to its storage key). The previous records go to the
+ * trash so the rename can be undone.
+ */
+export async function renameDomain(oldDomain: string, newInput: string): Promise<MutationResult> {
+  try {
+    const newDomain = await getStorageDomain(newInput);
+    if (!newDomain) {
+      return { success: false, error: 'Invalid domain' };
+    }
+
+    const codec = await getRecordCodec();
+    const domainKey = await codec.indexKey(oldDomain);
+    const newDomainKey = await codec.indexKey(newDomain);
+
+    return await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE],
+      async transaction => ({
+        records: await readDomainInTransaction(transaction, domainKey),
+        existing: await readDomainInTransaction(transaction, newDomainKey),
+        events: await readLoginEventsInTransaction(transaction, domainKey)
+      }),
+      async ({ records, existing, events }) => {
+        const entries = (await decodeMappings(codec, records)).map(fromStoredMapping);
+        return {
+          previous: records,
+          existing,
+          events,
+          next: await encodeDomain(codec, newDomain, entries),
+          reassigned: await reassignStoredLoginEvents(codec, events, { domain: newDomain })
+        };
+      },
+      async (transaction, prepared): Promise<MutationResult> => {
+        if (prepared.previous.length === 0) {
+          return { success: false, error: 'Domain not found' };
+        }
+
+        const batch = createTrashBatch();
+        const eventsByRecord = groupEventsByRecord(prepared.events);
+        prepared.previous.forEach((record, index) => {
+          const events = eventsByRecord.get(recordKey(record).join('\n')) || [];
+          addToTrashBatch(batch, 'edited', record, events, recordKey(prepared.next[index]));
+        });
+        trashOverwrittenRecords(batch, prepared.existing, prepared.next);
+
+        replaceRecordsInTransaction(transaction, prepared.previous, prepared.next);
+        prepared.reassigned.forEach(event => transaction.objectStore(EVENTS_STORE).put(event));
+        return withUndo(putTrashBatchInTransaction(transaction, batch));
+      }
+    );
+  } catch (error) {
+    console.error('Error renaming domain:', error);
+    return { success: false, error: mutationError(error, 'Failed to update domain') };
+  }
+}
+
+/**
+ * Change an email address and/or its description (undoable from the trash)
+ */
+export async function updateEmailMapping(
+  domain: string,
+  oldEmail: string,
+  newEmail: string,
+  description?: string
+): Promise<MutationResult> {
+  try {
+    const codec = await getRecordCodec();
+    const domainKey = await codec.indexKey(domain);
+    const emailKey = await codec.indexKey(oldEmail);
+    const newEmailKey = await codec.indexKey(newEmail);
+
+    return await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE],
+      async transaction => {
+        const store = transaction.objectStore(MAPPINGS_STORE);
+        const emailChanged = newEmail !== oldEmail;
+        return {
+          record: await requestToPromise<IndexedRecord | undefined>(store.get([domainKey, emailKey])),
+          existing: emailChanged
+            ? await requestToPromise<IndexedRecord | undefined>(store.get([domainKey, newEmailKey]))
+            : undefined,
+          events: await readLoginEventsInTransaction(transaction, domainKey, emailKey)
+        };
+      },
+      async ({ record, existing, events }) => {
+        if (!record) return null;
+
+        const updated = await codec.decode<StoredEmailMapping>(record);
+        updated.email = newEmail;
+        updated.timestamp = Date.now();
+        if (description !== undefined) {
+          updated.description = description;
+        }
+
+        return {
+          previous: record,
+          existing,
+          events,
+          next: await codec.encode(updated),
+          reassigned: newEmail !== oldEmail ? await reassignStoredLoginEvents(codec, events, { email: newEmail }) : []
+        };
+      },
+      async (transaction, prepared): Promise<MutationResult> => {
+        if (!prepared) {
+          return { success: false, error: 'Email not found' };
+        }
+
+        const batch = createTrashBatch();
+        addToTrashBatch(batch, 'edited', prepared.previous, prepared.events, recordKey(prepared.next));
+        trashOverwrittenRecords(batch, prepared.existing ? [prepared.existing] : [], [prepared.next]);
+
+        replaceRecordsInTransaction(transaction, [prepared.previous], [prepared.next]);
+        prepared.reassigned.forEach(event => transaction.objectStore(EVENTS_STORE).put(event));
+        return withUndo(putTrashBatchInTransaction(transaction, batch));
+      }
+    );
+  } catch (error) {
+    console.error('Error updating email mapping:', error);
+    return { success: false, error: mutationError(error, 'Failed to update email') };
+  }
+}
+
+/**
+ * Pin or unpin an email so the retention policy never evicts it
+ */
+export async function setEmailPinned(domain: string, email: string, pinned: boolean): Promise<MutationResult> {
+  try {
+    const codec = await getRecordCodec();
+    const key = [await codec.indexKey(domain), await codec.indexKey(email)];
+
+    return await readModifyWrite(
+      [MAPPINGS_STORE],
+      transaction => requestToPromise<IndexedRecord | undefined>(transaction.objectStore(MAPPINGS_STORE).get(key)),
+      async record => {
+        if (!record) return null;
+
+        const updated = await codec.decode<StoredEmailMapping>(record);
+        updated.pinned = pinned;
+        return codec.encode(updated);
+      },
+      async (transaction, record): Promise<MutationResult> => {
+        if (!record) {
+          return { success: false, error: 'Email not found' };
+        }
+
+        transaction.objectStore(MAPPINGS_STORE).put(record);
+        return { success: true };
+      }
+    );
+  } catch (error) {
+    console.error('Error pinning email mapping:', error);
+    return { success: false, error: mutationError(error, 'Failed to update email') };
+  }
+}
+
+/**
+ * Put trash items back: records, their login history, and (for edits) remove
+ * the records that replaced them. A restored email that has been detected
+ * again since it was deleted is merged into the live entry.
+ */
+export async function restoreFromTrash(selection: { ids?: string[]; batchId?: string }): Promise<MutationResult> {
+  try {
+    const codec = await getRecordCodec();
+
+    return await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE],
+      async transaction => {
+        const items = selection.batchId
+          ? await readTrashBatchInTransaction(transaction, selection.batchId)
+          : await readTrashItemsInTransaction(transaction, selection.ids || []);
+        const store = transaction.objectStore(MAPPINGS_STORE);
+        const live = await Promise.all(items.map(item =>
+          requestToPromise<IndexedRecord | undefined>(store.get(recordKey(item.record)))
+        ));
+        return { items, live };
+      },
+      async ({ items, live }) => {
+        const replaced = new Set(items.flatMap(item => item.replacedBy ? [item.replacedBy.join('\n')] : []));
+
+        const records = await Promise.all(items.map(async (item, index) => {
+          const current = live[index];
+          if (!current || replaced.has(recordKey(item.record).join('\n'))) {
+            return item.record;
+          }
+          const [liveEntry, restoredEntry] = await decodeMappings(codec, [current, item.record]);
+          return codec.encode(mergeRestoredEntry(liveEntry, restoredEntry));
+        }));
+
+        return { items, records };
+      },
+      async (transaction, { items, records }): Promise<MutationResult> => {
+        if (items.length === 0) {
+          return { success: false, error: 'Nothing to restore' };
+        }
+
+        const mappings = transaction.objectStore(MAPPINGS_STORE);
+        const events = transaction.objectStore(EVENTS_STORE);
+        const trash = transaction.objectStore(TRASH_STORE);
+
+        items.forEach(item => {
+          if (item.replacedBy) mappings.delete(item.replacedBy);
+        });
+        records.forEach(record => mappings.put(record));
+        items.forEach(item => {
+          item.events.forEach(event => events.put(event));
+          trash.delete(item.id);
+        });
+        return { success: true };
+      }
+    );
+  } catch (error) {
+    console.error('Error restoring from trash:', error);
+    return { success: false, error: mutationError(error, 'Failed to restore') };
+  }
+}
+
+/**
+ * Combine a restored entry with one detected again after it was deleted
+ */
+function mergeRestoredEntry(live: StoredEmailMapping, restored: StoredEmailMapping): StoredEmailMapping {
+  const merged: StoredEmailMapping = {
+    ...restored,
+    ...live,
+    count: live.count + restored.count,
+    timestamp: Math.max(live.timestamp, restored.timestamp)
+  };
+
+  const firstSourceUrl = restored.firstSourceUrl || live.firstSourceUrl;
+  if (firstSourceUrl) merged.firstSourceUrl = firstSourceUrl;
+
+  if (live.methods || restored.methods) {
+    const methods: LoginMethodCounts = { ...live.methods };
+    for (const [method, count] of Object.entries(restored.methods || {})) {
+      const key = method as LoginMethod;
+      methods[key] = (methods[key] || 0) + (count || 0);
+    }
+    merged.methods = methods;
+  }
+
+  return merged;
+}
+
+/**
+ * Add records about to be overwritten by an edit to its trash batch
+ */
+function trashOverwrittenRecords(batch: TrashBatch, existing: IndexedRecord[], next: IndexedRecord[]): void {
+  const nextKeys = new Set(next.map(record => recordKey(record).join('\n')));
+  existing
+    .filter(record => nextKeys.has(recordKey(record).join('\n')))
+    .forEach(record => addToTrashBatch(batch, 'edited', record, [], recordKey(record)));
+}
+
+/**
+ * Successful mutation result carrying the trash batch to undo
+ */
+function withUndo(undoId: string | undefined): MutationResult {
+  return undoId ? { success: true, undoId } : { success: true };
+}
+
+/**
+ * Error message for a failed mutation (tells the user when the vault is locked)
+ */
+function mutationError(error: unknown, fallback: string): string {
+  return isVaultLockedError(error) ? (error as Error).message : fallback;
+}
+
 /**
  * Get all unique emails across all domains
  */
@@ -146,35 +929,210 @@ export async function getAllEmails(): Promise<EmailSummary[]> {
 }
 
 /**
- * Clear all email mappings
+ * Move every email mapping (and the login history they derive from) to the trash
  */
-export async function clearAllMappings(): Promise<boolean> {
+export async function clearAllMappings(): Promise<MutationResult> {
   try {
-    await chrome.storage.local.set({ [STORAGE_KEY]: {} });
+    const result = await writeTransaction([MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE], async transaction => {
+      const records = await readAllInTransaction(transaction);
+      const events = await requestToPromise<IndexedRecord[]>(transaction.objectStore(EVENTS_STORE).getAll());
+
+      const batch = createTrashBatch();
+      const eventsByRecord = groupEventsByRecord(events);
+      records.forEach(record => {
+        addToTrashBatch(batch, 'deleted', record, eventsByRecord.get(recordKey(record).join('\n')) || []);
+      });
+
+      await requestToPromise(transaction.objectStore(MAPPINGS_STORE).clear());
+      await deleteLoginEventsInTransaction(transaction);
+      return withUndo(putTrashBatchInTransaction(transaction, batch));
+    });
     console.log('All email mappings cleared');
-    return true;
+    return result;
   } catch (error) {
     console.error('Error clearing email mappings:', error);
-    return false;
+    return { success: false, error: 'Failed to clear data' };
   }
 }
 
 /**
- * Clear email mappings for a specific domain
+ * Move a domain's email mappings (and their history) to the trash
  */
-export async function clearDomainMappings(domain: string): Promise<boolean> {
+export async function clearDomainMappings(domain: string): Promise<MutationResult> {
   try {
-    const mappings = await getEmailMappings();
-    delete mappings[domain];
-    await chrome.storage.local.set({ [STORAGE_KEY]: mappings });
+    const domainKey = await (await getRecordCodec()).indexKey(domain);
+    const result = await writeTransaction([MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE], async transaction => {
+      const records = await readDomainInTransaction(transaction, domainKey);
+      if (records.length === 0) {
+        return { success: false, error: 'Domain not found' };
+      }
+
+      const batch = createTrashBatch();
+      const eventsByRecord = groupEventsByRecord(await readLoginEventsInTransaction(transaction, domainKey));
+      records.forEach(record => {
+        addToTrashBatch(batch, 'deleted', record, eventsByRecord.get(recordKey(record).join('\n')) || []);
+      });
+
+      replaceRecordsInTransaction(transaction, records, []);
+      await deleteLoginEventsInTransaction(transaction, domainKey);
+      return withUndo(putTrashBatchInTransaction(transaction, batch));
+    });
     console.log('Email mappings cleared for domain:', domain);
-    return true;
+    return result;
   } catch (error) {
     console.error('Error clearing domain mappings:', error);
-    return false;
+    return { success: false, error: mutationError(error, 'Failed to delete domain') };
+  }
+}
+
+/**
+ * Turn on the vault: encrypt every stored mapping, event and cookie jar under a new
+ * passphrase and return the recovery key (shown to the user once)
+ */
+export async function enableVault(passphrase: string, autoLockMinutes: number): Promise<VaultSetupResult> {
+  try {
+    const { secret, recoveryKey, config } = await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE, COOKIE_JARS_STORE],
+      async transaction => ({
+        config: await requestToPromise<VaultConfig | undefined>(transaction.objectStore(META_STORE).get(VAULT_CONFIG_META_KEY)),
+        records: await readAllInTransaction(transaction),
+        events: await requestToPromise<IndexedRecord[]>(transaction.objectStore(EVENTS_STORE).getAll()),
+        trash: await requestToPromise<TrashItem[]>(transaction.objectStore(TRASH_STORE).getAll()),
+        cookieJars: await requestToPromise<IndexedRecord[]>(transaction.objectStore(COOKIE_JARS_STORE).getAll())
+      }),
+      async data => {
+        if (data.config) {
+          throw new Error('Vault is already enabled');
+        }
+
+        const vault = await createVault(passphrase, autoLockMinutes);
+        const codec = await createRecordCodec(vault.secret);
+        const encode = (record: IndexedRecord) => codec.encode(record);
+        return {
+          vault,
+          records: await Promise.all(data.records.map(encode)),
+          events: await Promise.all(data.events.map(encode)),
+          trash: await convertTrashItems(data.trash, encode),
+          cookieJars: await Promise.all(data.cookieJars.map(encode))
+        };
+      },
+      async (transaction, prepared) => {
+        await replaceAllInTransaction(transaction, prepared.records);
+        await replaceEventsInTransaction(transaction, prepared.events);
+        await replaceTrashInTransaction(transaction, prepared.trash);
+        await replaceCookieJarsInTransaction(transaction, prepared.cookieJars);
+        transaction.objectStore(META_STORE).put(prepared.vault.config, VAULT_CONFIG_META_KEY);
+        return prepared.vault;
+      }
+    );
+
+    // The eviction log names domains and emails too
+    const codec = await createRecordCodec(secret);
+    await convertEvictionLog(record => codec.encode(record));
+
+    await openVaultSession(secret, config.autoLockMinutes);
+    console.log('Vault enabled');
+    return { success: true, recoveryKey };
+  } catch (error) {
+    console.error('Error enabling vault:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to enable vault' };
+  }
+}
+
+/**
+ * Turn off the vault: decrypt everything back to plaintext (needs the passphrase)
+ */
+export async function disableVault(passphrase: string): Promise<MutationResult> {
+  try {
+    const codec = await readModifyWrite(
+      [MAPPINGS_STORE, EVENTS_STORE, TRASH_STORE, COOKIE_JARS_STORE],
+      async transaction => ({
+        config: await requestToPromise<VaultConfig | undefined>(transaction.objectStore(META_STORE).get(VAULT_CONFIG_META_KEY)),
+        records: await readAllInTransaction(transaction),
+        events: await requestToPromise<IndexedRecord[]>(transaction.objectStore(EVENTS_STORE).getAll()),
+        trash: await requestToPromise<TrashItem[]>(transaction.objectStore(TRASH_STORE).getAll()),
+        cookieJars: await requestToPromise<IndexedRecord[]>(transaction.objectStore(COOKIE_JARS_STORE).getAll())
+      }),
+      async data => {
+        if (!data.config) {
+          throw new Error('Vault is not enabled');
+        }
+
+        const codec = await createRecordCodec(await unwrapSecretWithPassphrase(data.config, passphrase));
+        const decode = (record: IndexedRecord) => codec.decode<IndexedRecord>(record);
+        return {
+          codec,
+          records: await Promise.all(data.records.map(decode)),
+          events: await Promise.all(data.events.map(decode)),
+          trash: await convertTrashItems(data.trash, decode),
+          cookieJars: await Promise.all(data.cookieJars.map(decode))
+        };
+      },
+      async (transaction, prepared) => {
+        await replaceAllInTransaction(transaction, prepared.records);
+        await replaceEventsInTransaction(transaction, prepared.events);
+        await replaceTrashInTransaction(transaction, prepared.trash);
+        await replaceCookieJarsInTransaction(transaction, prepared.cookieJars);
+        transaction.objectStore(META_STORE).delete(VAULT_CONFIG_META_KEY);
+        return prepared.codec;
+      }
+    );
+
+    await convertEvictionLog(record => codec.decode<IndexedRecord>(record));
+    await lockVault();
+    await clearPendingLogins();
+    console.log('Vault disabled');
+    return { success: true };
+  } catch (error) {
+    console.error('Error disabling vault:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to disable vault' };
   }
 }
 
+/**
+ * Re-encode deleted trash items for a vault change. Edit snapshots are
+ * dropped since their replacement keys cannot be re-encoded.
+ */
+function convertTrashItems(
+  items: TrashItem[],
+  convert: (record: IndexedRecord) => Promise<IndexedRecord>
+): Promise<TrashItem[]> {
+  return Promise.all(items
+    .filter(item => item.reason === 'deleted')
+    .map(async item => ({
+      ...item,
+      record: await convert(item.record),
+      events: await Promise.all(item.events.map(convert))
+    })));
+}
+
+/**
+ * Clear the trash store and write every item
+ */
+async function replaceTrashInTransaction(transaction: IDBTransaction, items: TrashItem[]): Promise<void> {
+  const store = transaction.objectStore(TRASH_STORE);
+  await requestToPromise(store.clear());
+  items.forEach(item => store.put(item));
+}
+
+/**
+ * Clear the events store and write every event
+ */
+async function replaceEventsInTransaction(transaction: IDBTransaction, events: IndexedRecord[]): Promise<void> {
+  const store = transaction.objectStore(EVENTS_STORE);
+  await requestToPromise(store.clear());
+  events.forEach(event => store.put(event));
+}
+
+/**
+ * Clear the cookie jars store and write every jar
+ */
+async function replaceCookieJarsInTransaction(transaction: IDBTransaction, jars: IndexedRecord[]): Promise<void> {
+  const store = transaction.objectStore(COOKIE_JARS_STORE);
+  await requestToPromise(store.clear());
+  jars.forEach(jar => store.put(jar));
+}
+
 /**
  * Get storage statistics
  */
@@ -210,12 +1168,20 @@ export async function getStorageStats(): Promise<StorageStats | null> {
  * Convert LoginData to EmailMapping for storage
  */
 export function loginDataToEmailMapping(loginData: LoginData): EmailMapping {
-  return {
+  const mapping: EmailMapping = {
     email: loginData.email,
     apiUrl: loginData.url,
     timestamp: loginData.timestamp,
-    count: 1
+    count: 1,
+    firstSourceUrl: loginData.url,
+    lastSourceUrl: loginData.url
   };
+
+  if (loginData.method) {
+    mapping.methods = { [loginData.method]: 1 };
+  }
+
+  return mapping;
 }
 
 /**
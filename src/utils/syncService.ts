@@ -1,7 +1,7 @@
 // Sync service for Convex integration
 // Provides hybrid storage: local-first with optional cloud sync
 
-import { getEmailMappings, saveEmailMapping } from './storage';
+import { compareAndSwapMappings, getEmailMappings, getMappingsSnapshot } from './storage';
 import { DomainMappings } from './storage';
 
 // Define sync result interface
@@ -16,6 +16,9 @@ export interface SyncResult {
 // Define merge strategy
 export type MergeStrategy = 'LOCAL_WINS' | 'REMOTE_WINS' | 'LATEST_WINS';
 
+// How often to retry the local write when it races with a detection
+const MAX_MERGE_ATTEMPTS = 3;
+
 export class SyncService {
   private convex: any = null;
   private userId: string | null = null;
@@ -145,23 +148,32 @@ export class SyncService {
     }
 
     try {
-      // 1. Get local data
-      const localData = await getEmailMappings();
-      const localCount = Object.keys(localData).reduce((sum, domain) => sum + localData[domain].length, 0);
-
-      // 2. Get remote data
+      // 1. Get remote data
       const userId = await this.getOrCreateUserId();
       const remoteData = await this.convex.query('sync:getUserMappings', { userId });
       const remoteCount = Object.keys(remoteData).reduce((sum, domain) => sum + remoteData[domain].length, 0);
 
-      // 3. Merge intelligently based on strategy
-      const merged = await this.smartMerge(localData, remoteData, strategy);
+      // 2. Merge with local data and write it back, retrying if a login was
+      //    recorded locally while we were merging
+      let localCount = 0;
+      let merged: DomainMappings | null = null;
+
+      for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS && !merged; attempt++) {
+        const snapshot = await getMappingsSnapshot();
+        localCount = Object.keys(snapshot.mappings).reduce((sum, domain) => sum + snapshot.mappings[domain].length, 0);
+
+        const candidate = await this.smartMerge(snapshot.mappings, remoteData, strategy);
+        if (await compareAndSwapMappings(snapshot.revision, candidate)) {
+          merged = candidate;
+        }
+      }
+
+      if (!merged) {
+        throw new Error('Local data kept changing during sync, please try again');
+      }
 
-      // 4. Update both storages
-      await Promise.all([
-        this.updateLocalStorage(merged),
-        this.updateConvexStorage(userId, merged)
-      ]);
+      // 3. Update cloud storage with what was written locally
+      await this.updateConvexStorage(userId, merged);
 
       const mergedCount = Object.keys(merged).reduce((sum, domain) => sum + merged[domain].length, 0);
 
@@ -227,28 +239,6 @@ export class SyncService {
     return merged;
   }
 
-  // Update local storage with merged data
-  private async updateLocalStorage(mergedData: DomainMappings): Promise<void> {
-    try {
-      console.log('💾 Updating local storage with merged data...');
-
-      // Clear existing data first
-      await chrome.storage.local.set({ emailMappings: {} });
-
-      // Insert merged data back into local storage
-      for (const [domain, emails] of Object.entries(mergedData)) {
-        for (const email of emails) {
-          await saveEmailMapping(domain, email.email, email.apiUrl);
-        }
-      }
-
-      console.log('✅ Local storage updated successfully');
-    } catch (error) {
-      console.error('❌ Error updating local storage:', error);
-      throw error;
-    }
-  }
-
   // Update Convex storage with merged data
   private async updateConvexStorage(userId: string, mergedData: DomainMappings): Promise<void> {
     if (!this.convex) return;
@@ -0,0 +1,301 @@
+// Tracking settings: the global pause switch and per-site rules
+
+// Also loaded by the content script, so this avoids the domain module and its
+// bundled Public Suffix List
+
+import { LoginMethod } from '../types/index';
+import { updateStorageValue } from './writeQueue';
+
+// chrome.storage key holding the settings
+const TRACKING_SETTINGS_KEY = 'trackingSettings';
+
+// Alarm that ends a timed pause
+export const TRACKING_RESUME_ALARM = 'tracking-resume';
+
+const MINUTE_MS = 60 * 1000;
+
+// Detections that come from the page's own login forms (tap-to-capture, form
+// submits, and fetch/XHR login requests)
+const FORM_CAPTURE_METHODS: LoginMethod[] = ['tap_capture', 'manual', 'request_body'];
+
+/**
+ * What is allowed on a site. A rule with everything enabled allows a site
+ * that a broader rule (e.g. '*.example.com') blocks.
+ */
+export interface SitePolicy {
+  tracking: boolean;
+  banner: boolean;
+  formCapture: boolean;
+}
+
+/**
+ * Policy for a domain ('example.com', which covers its subdomains) or a
+ * wildcard pattern ('*.example.com', 'intranet.*')
+ */
+export interface SiteRule extends SitePolicy {
+  pattern: string;
+}
+
+export interface TrackingSettings {
+  isPaused: boolean;
+  // End of a timed pause (absent for pauses until resumed or until restart)
+  pausedUntil?: number;
+  // Resume when the browser next starts
+  pauseUntilRestart?: boolean;
+  siteRules: SiteRule[];
+}
+
+/**
+ * How long to pause: 15 minutes, an hour, until the browser restarts, until
+ * local midnight, or until resumed by hand
+ */
+export type PauseDuration = '15m' | '1h' | 'restart' | 'tomorrow' | 'indefinite';
+
+/**
+ * The pause state shown in the popup
+ */
+export interface PauseStatus {
+  isPaused: boolean;
+  pausedUntil?: number;
+  pauseUntilRestart?: boolean;
+}
+
+export const DEFAULT_SITE_POLICY: SitePolicy = { tracking: true, banner: true, formCapture: true };
+
+const DEFAULT_TRACKING_SETTINGS: TrackingSettings = { isPaused: false, siteRules: [] };
+
+/**
+ * Get the tracking settings
+ */
+export async function getTrackingSettings(): Promise<TrackingSettings> {
+  try {
+    const result = await chrome.storage.local.get([TRACKING_SETTINGS_KEY]);
+    return { ...DEFAULT_TRACKING_SETTINGS, ...(result[TRACKING_SETTINGS_KEY] || {}) };
+  } catch (error) {
+    console.error('Error getting tracking settings:', error);
+    return { ...DEFAULT_TRACKING_SETTINGS };
+  }
+}
+
+/**
+ * Read-modify-write the tracking settings
+ */
+export function updateTrackingSettings(update: (settings: TrackingSettings) => TrackingSettings): Promise<TrackingSettings> {
+  return updateStorageValue<TrackingSettings>(TRACKING_SETTINGS_KEY, current =>
+    update({ ...DEFAULT_TRACKING_SETTINGS, ...(current || {}) })
+  );
+}
+
+/**
+ * Normalize a pattern typed by the user ('https://Example.com/x' -> 'example.com')
+ */
+export function normalizeSitePattern(input: string): string {
+  const value = input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0].replace(/\.$/, '');
+  return value.split('.').map(toAsciiLabel).join('.');
+}
+
+// Punycode an IDN label so patterns compare against URL hostnames ('*' is kept)
+function toAsciiLabel(label: string): string {
+  if (!/[^\x00-\x7f]/.test(label)) return label;
+  try {
+    return new URL(`http://${label}`).hostname;
+  } catch (error) {
+    return label;
+  }
+}
+
+/**
+ * Check whether a hostname matches a pattern. Plain domains match themselves
+ * and their subdomains; '*' matches any run of characters.
+ */
+export function matchesSitePattern(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!pattern.includes('*')) {
+    return host === pattern || host.endsWith(`.${pattern}`);
+  }
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(host);
+}
+
+// More specific patterns win: plain domains over wildcards, then longer over shorter
+function getPatternSpecificity(pattern: string): number {
+  return (pattern.includes('*') ? 0 : 1000) + pattern.replace(/\*/g, '').length;
+}
+
+/**
+ * The most specific rule matching a hostname
+ */
+export function findSiteRule(hostname: string, rules: SiteRule[]): SiteRule | undefined {
+  return rules
+    .filter(rule => matchesSitePattern(hostname, rule.pattern))
+    .sort((a, b) => getPatternSpecificity(b.pattern) - getPatternSpecificity(a.pattern))[0];
+}
+
+/**
+ * The policy for a hostname: its most specific matching rule, or everything allowed
+ */
+export function getSitePolicy(hostname: string, rules: SiteRule[]): SitePolicy {
+  const match = findSiteRule(hostname, rules);
+  return match ? { tracking: match.tracking, banner: match.banner, formCapture: match.formCapture } : { ...DEFAULT_SITE_POLICY };
+}
+
+/**
+ * Check whether a login detected by `method` may be recorded under a policy
+ */
+export function isCaptureAllowed(policy: SitePolicy, method?: LoginMethod): boolean {
+  if (!policy.tracking) return false;
+  return policy.formCapture || !method || !FORM_CAPTURE_METHODS.includes(method);
+}
+
+/**
+ * Check whether a pause is in effect. A timed pause counts as over once its
+ * end has passed, even if the resume alarm has not fired yet.
+ */
+export function isPauseActive(settings: PauseStatus, now: number = Date.now()): boolean {
+  return settings.isPaused && (settings.pausedUntil === undefined || now < settings.pausedUntil);
+}
+
+/**
+ * The pause state without the site rules
+ */
+export function getPauseStatus(settings: TrackingSettings, now: number = Date.now()): PauseStatus {
+  if (!isPauseActive(settings, now)) {
+    return { isPaused: false };
+  }
+  return {
+    isPaused: true,
+    ...(settings.pausedUntil !== undefined ? { pausedUntil: settings.pausedUntil } : {}),
+    ...(settings.pauseUntilRestart ? { pauseUntilRestart: true } : {})
+  };
+}
+
+/**
+ * Time left in a timed pause, for badges and buttons ('12m', '3h'); null if untimed
+ */
+export function formatPauseRemaining(status: PauseStatus, now: number = Date.now()): string | null {
+  if (!status.isPaused || status.pausedUntil === undefined) return null;
+
+  const minutes = Math.max(1, Math.ceil((status.pausedUntil - now) / MINUTE_MS));
+  return minutes < 60 ? `${minutes}m` : `${Math.ceil(minutes / 60)}h`;
+}
+
+/**
+ * When a pause of `duration` started at `now` ends (undefined for untimed pauses)
+ */
+function getPauseEnd(duration: PauseDuration, now: number): number | undefined {
+  switch (duration) {
+    case '15m':
+      return now + 15 * MINUTE_MS;
+    case '1h':
+      return now + 60 * MINUTE_MS;
+    case 'tomorrow': {
+      const midnight = new Date(now);
+      midnight.setHours(24, 0, 0, 0);
+      return midnight.getTime();
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Settings without the end of any previous pause
+function withoutPauseEnd(settings: TrackingSettings): TrackingSettings {
+  const next = { ...settings };
+  delete next.pausedUntil;
+  delete next.pauseUntilRestart;
+  return next;
+}
+
+/**
+ * Pause tracking, scheduling the automatic resume for timed pauses
+ */
+export async function pauseTracking(duration: PauseDuration): Promise<TrackingSettings> {
+  const pausedUntil = getPauseEnd(duration, Date.now());
+
+  const settings = await updateTrackingSettings(current => ({
+    ...withoutPauseEnd(current),
+    isPaused: true,
+    ...(pausedUntil !== undefined ? { pausedUntil } : {}),
+    ...(duration === 'restart' ? { pauseUntilRestart: true } : {})
+  }));
+
+  await chrome.alarms.clear(TRACKING_RESUME_ALARM);
+  if (pausedUntil !== undefined) {
+    chrome.alarms.create(TRACKING_RESUME_ALARM, { when: pausedUntil });
+  }
+  return settings;
+}
+
+/**
+ * Resume tracking and cancel any pending automatic resume
+ */
+export async function resumeTracking(): Promise<TrackingSettings> {
+  const settings = await updateTrackingSettings(current => ({ ...withoutPauseEnd(current), isPaused: false }));
+  await chrome.alarms.clear(TRACKING_RESUME_ALARM);
+  return settings;
+}
+
+/**
+ * Check whether tracking is paused everywhere
+ */
+export async function isTrackingPaused(): Promise<boolean> {
+  return isPauseActive(await getTrackingSettings());
+}
+
+/**
+ * Check whether a login on `hostname` may be recorded right now
+ */
+export async function isTrackingAllowed(hostname: string, method?: LoginMethod): Promise<boolean> {
+  const settings = await getTrackingSettings();
+  return !isPauseActive(settings) && isCaptureAllowed(getSitePolicy(hostname, settings.siteRules), method);
+}
+
+/**
+ * Add or replace the rule for a pattern
+ */
+export async function saveSiteRule(rule: SiteRule): Promise<boolean> {
+  const pattern = normalizeSitePattern(rule.pattern);
+  if (!pattern) return false;
+
+  try {
+    await updateTrackingSettings(settings => ({
+      ...settings,
+      siteRules: [...settings.siteRules.filter(existing => existing.pattern !== pattern), { ...rule, pattern }]
+    }));
+    return true;
+  } catch (error) {
+    console.error('Error saving site rule:', error);
+    return false;
+  }
+}
+
+/**
+ * Remove the rule for a pattern
+ */
+export async function removeSiteRule(pattern: string): Promise<boolean> {
+  try {
+    await updateTrackingSettings(settings => ({
+      ...settings,
+      siteRules: settings.siteRules.filter(rule => rule.pattern !== pattern)
+    }));
+    return true;
+  } catch (error) {
+    console.error('Error removing site rule:', error);
+    return false;
+  }
+}
+
+/**
+ * Call `listener` whenever the tracking settings change. Returns an unsubscribe function.
+ */
+export function subscribeToTrackingSettings(listener: (settings: TrackingSettings) => void): () => void {
+  const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    const change = changes[TRACKING_SETTINGS_KEY];
+    if (areaName === 'local' && change) {
+      listener({ ...DEFAULT_TRACKING_SETTINGS, ...(change.newValue || {}) });
+    }
+  };
+
+  chrome.storage.onChanged.addListener(handleChange);
+  return () => chrome.storage.onChanged.removeListener(handleChange);
+}
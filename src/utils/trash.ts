@@ -0,0 +1,190 @@
+// Trash bin for deleted and edited email mappings
+
+import { EmailMapping } from './storage';
+import { TRASH_STORE, requestToPromise, runTransaction, writeTransaction } from './database';
+import { IndexedRecord, RecordCodec, getRecordCodec } from './vault';
+import { getRetentionPolicy } from './retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'deleted' items are listed in the Trash view; 'edited' items only back the undo toast
+export type TrashReason = 'deleted' | 'edited';
+
+/**
+ * A removed mapping with its login history, kept exactly as it was encoded
+ * in the stores so it can be put back without re-encrypting
+ */
+export interface TrashItem {
+  id: string;
+  batchId: string;
+  deletedAt: number;
+  reason: TrashReason;
+  record: IndexedRecord;
+  events: IndexedRecord[];
+  // Key of the record that replaced this one (edits), removed again on undo
+  replacedBy?: [string, string];
+}
+
+/**
+ * Decoded trash entry for the popup
+ */
+export interface TrashEntry {
+  id: string;
+  batchId: string;
+  deletedAt: number;
+  domain: string;
+  mapping: EmailMapping;
+  loginCount: number;
+}
+
+/**
+ * The items removed by one action, undone together
+ */
+export interface TrashBatch {
+  id: string;
+  deletedAt: number;
+  items: TrashItem[];
+}
+
+export function createTrashBatch(): TrashBatch {
+  return { id: crypto.randomUUID(), deletedAt: Date.now(), items: [] };
+}
+
+/**
+ * Add a removed record (and its events) to a batch
+ */
+export function addToTrashBatch(
+  batch: TrashBatch,
+  reason: TrashReason,
+  record: IndexedRecord,
+  events: IndexedRecord[],
+  replacedBy?: [string, string]
+): void {
+  const item: TrashItem = {
+    id: `${batch.id}:${batch.items.length}`,
+    batchId: batch.id,
+    deletedAt: batch.deletedAt,
+    reason,
+    record,
+    events
+  };
+  if (replacedBy) item.replacedBy = replacedBy;
+  batch.items.push(item);
+}
+
+/**
+ * Write a batch inside an open transaction (returns its id for undo)
+ */
+export function putTrashBatchInTransaction(transaction: IDBTransaction, batch: TrashBatch): string | undefined {
+  if (batch.items.length === 0) return undefined;
+
+  const store = transaction.objectStore(TRASH_STORE);
+  batch.items.forEach(item => store.put(item));
+  return batch.id;
+}
+
+/**
+ * Split stored events by the mapping they belong to (domain + email key)
+ */
+export function groupEventsByRecord(events: IndexedRecord[]): Map<string, IndexedRecord[]> {
+  const grouped = new Map<string, IndexedRecord[]>();
+  events.forEach(event => {
+    const key = `${event.domain}\n${event.email}`;
+    grouped.set(key, [...(grouped.get(key) || []), event]);
+  });
+  return grouped;
+}
+
+/**
+ * Read trash items by id inside an open transaction
+ */
+export async function readTrashItemsInTransaction(transaction: IDBTransaction, ids: string[]): Promise<TrashItem[]> {
+  const store = transaction.objectStore(TRASH_STORE);
+  const items = await Promise.all(ids.map(id => requestToPromise<TrashItem | undefined>(store.get(id))));
+  return items.filter((item): item is TrashItem => item !== undefined);
+}
+
+/**
+ * Read every item of a batch inside an open transaction
+ */
+export function readTrashBatchInTransaction(transaction: IDBTransaction, batchId: string): Promise<TrashItem[]> {
+  return requestToPromise<TrashItem[]>(
+    transaction.objectStore(TRASH_STORE).getAll(IDBKeyRange.bound(`${batchId}:`, `${batchId}:\uffff`))
+  );
+}
+
+/**
+ * Decode a trash item for display
+ */
+async function decodeTrashItem(codec: RecordCodec, item: TrashItem): Promise<TrashEntry> {
+  const { domain, ...mapping } = await codec.decode<EmailMapping & IndexedRecord>(item.record);
+  return {
+    id: item.id,
+    batchId: item.batchId,
+    deletedAt: item.deletedAt,
+    domain,
+    mapping,
+    loginCount: item.events.length
+  };
+}
+
+/**
+ * Get deleted entries (most recently deleted first)
+ */
+export async function getTrashEntries(): Promise<TrashEntry[]> {
+  try {
+    const codec = await getRecordCodec();
+    const items = await runTransaction(TRASH_STORE, 'readonly', transaction =>
+      requestToPromise<TrashItem[]>(transaction.objectStore(TRASH_STORE).index('deletedAt').getAll())
+    );
+
+    const entries = await Promise.all(
+      items.filter(item => item.reason === 'deleted').map(item => decodeTrashItem(codec, item))
+    );
+    return entries.reverse();
+  } catch (error) {
+    console.error('Error getting trash entries:', error);
+    return [];
+  }
+}
+
+/**
+ * Permanently delete trash items older than the policy's trash window
+ */
+export async function purgeTrash(now: number = Date.now()): Promise<number> {
+  try {
+    const policy = await getRetentionPolicy();
+    if (policy.trashDays <= 0) return 0;
+
+    const purged = await writeTransaction([TRASH_STORE], async transaction => {
+      const index = transaction.objectStore(TRASH_STORE).index('deletedAt');
+      const range = IDBKeyRange.upperBound(now - policy.trashDays * DAY_MS);
+      const keys = await requestToPromise(index.getAllKeys(range));
+      keys.forEach(key => transaction.objectStore(TRASH_STORE).delete(key));
+      return keys.length;
+    });
+
+    if (purged > 0) {
+      console.log('Purged expired trash items:', purged);
+    }
+    return purged;
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return 0;
+  }
+}
+
+/**
+ * Permanently delete everything in the trash
+ */
+export async function emptyTrash(): Promise<boolean> {
+  try {
+    await writeTransaction([TRASH_STORE], async transaction => {
+      await requestToPromise(transaction.objectStore(TRASH_STORE).clear());
+    });
+    return true;
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return false;
+  }
+}
@@ -0,0 +1,557 @@
+// Passphrase-encrypted vault for stored mappings and login events
+
+import { META_STORE, requestToPromise, runTransaction, writeTransaction } from './database';
+import { updateStorageValue } from './writeQueue';
+
+// Meta key holding the vault configuration (absent when the vault is off)
+export const VAULT_CONFIG_META_KEY = 'vaultConfig';
+
+// chrome.storage.session key holding the unlocked vault secret
+const SESSION_SECRET_KEY = 'vaultSecret';
+
+// chrome.storage.local key for logins detected while the vault was locked
+const PENDING_LOGINS_KEY = 'vaultPendingLogins';
+
+// Alarm that locks the vault after the auto-lock timeout
+export const VAULT_LOCK_ALARM = 'vault-auto-lock';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export const VAULT_LOCKED_ERROR = 'Vault is locked';
+
+const PBKDF2_ITERATIONS = 600000;
+const SECRET_BYTES = 32;
+
+/**
+ * AES-GCM ciphertext with its IV (both base64)
+ */
+export interface SealedPayload {
+  iv: string;
+  data: string;
+}
+
+/**
+ * Vault configuration stored next to the data it protects
+ */
+export interface VaultConfig {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // Vault secret wrapped by the passphrase key and by the recovery key
+  wrappedSecret: SealedPayload;
+  recoveryWrappedSecret: SealedPayload;
+  // Key pair used to seal logins detected while locked
+  publicKey: JsonWebKey;
+  wrappedPrivateKey: SealedPayload;
+  autoLockMinutes: number;
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+  pendingLogins: number;
+}
+
+/**
+ * A login sealed to the vault public key while the vault was locked
+ */
+interface PendingLogin extends SealedPayload {
+  ephemeralKey: JsonWebKey;
+}
+
+/**
+ * Fields every encoded record keeps in clear so the stores stay indexable
+ */
+export interface IndexedRecord {
+  domain: string;
+  email: string;
+  timestamp: number;
+  id?: string;
+}
+
+/**
+ * Encodes records on their way into IndexedDB and decodes them on the way out
+ */
+export interface RecordCodec {
+  encrypted: boolean;
+  indexKey(value: string): Promise<string>;
+  encode<T extends IndexedRecord>(record: T): Promise<IndexedRecord>;
+  decode<T extends IndexedRecord>(stored: any): Promise<T>;
+}
+
+/**
+ * Result of creating a vault: the config to store and the keys to hand out
+ */
+export interface NewVault {
+  config: VaultConfig;
+  secret: string;
+  recoveryKey: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Format a recovery key as dash-separated groups of hex
+ */
+function formatRecoveryKey(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{1,8}/g)!.join('-').toUpperCase();
+}
+
+function parseRecoveryKey(recoveryKey: string): Uint8Array<ArrayBuffer> {
+  const hex = recoveryKey.replace(/[^0-9a-f]/gi, '');
+  if (hex.length !== SECRET_BYTES * 2) {
+    throw new Error('Invalid recovery key');
+  }
+  return Uint8Array.from(hex.match(/.{2}/g)!, pair => parseInt(pair, 16));
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array<ArrayBuffer>): Promise<SealedPayload> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+async function unseal(key: CryptoKey, payload: SealedPayload): Promise<Uint8Array<ArrayBuffer>> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return new Uint8Array(data);
+}
+
+/**
+ * Derive the key that wraps the vault secret from a passphrase (PBKDF2-SHA256)
+ */
+async function derivePassphraseKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function importRecoveryKey(recoveryKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', parseRecoveryKey(recoveryKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Derive the record encryption key and the blind index key from the vault secret
+ */
+async function deriveSecretKeys(secret: string): Promise<{ recordKey: CryptoKey; indexKey: CryptoKey }> {
+  const material = await crypto.subtle.importKey('raw', fromBase64(secret), 'HKDF', false, ['deriveKey']);
+  const params = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) });
+
+  const recordKey = await crypto.subtle.deriveKey(
+    params('login-tracker records'), material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+  );
+  const indexKey = await crypto.subtle.deriveKey(
+    params('login-tracker index'), material, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  return { recordKey, indexKey };
+}
+
+/**
+ * Codec for plaintext storage (vault disabled)
+ */
+const plainCodec: RecordCodec = {
+  encrypted: false,
+  indexKey: async value => value,
+  encode: async record => record,
+  decode: async stored => stored
+};
+
+/**
+ * Codec that seals every record and replaces domain/email with keyed hashes.
+ * Timestamps and event ids stay in clear so the indexes keep working.
+ */
+export async function createRecordCodec(secret: string | null): Promise<RecordCodec> {
+  if (!secret) return plainCodec;
+
+  const { recordKey, indexKey } = await deriveSecretKeys(secret);
+
+  const hashIndexKey = async (value: string) =>
+    toBase64(await crypto.subtle.sign('HMAC', indexKey, encoder.encode(value)));
+
+  return {
+    encrypted: true,
+    indexKey: hashIndexKey,
+    async encode(record) {
+      const encoded: IndexedRecord & { sealed?: SealedPayload } = {
+        domain: await hashIndexKey(record.domain),
+        email: await hashIndexKey(record.email),
+        timestamp: record.timestamp,
+        sealed: await seal(recordKey, encoder.encode(JSON.stringify(record)))
+      };
+      if (record.id !== undefined) encoded.id = record.id;
+      return encoded;
+    },
+    async decode(stored) {
+      // Records written before the vault was enabled are still plaintext
+      if (!stored || !stored.sealed) return stored;
+      return JSON.parse(decoder.decode(await unseal(recordKey, stored.sealed)));
+    }
+  };
+}
+
+/**
+ * Read the vault configuration (null when the vault is disabled)
+ */
+export async function getVaultConfig(): Promise<VaultConfig | null> {
+  const config = await runTransaction(META_STORE, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(META_STORE).get(VAULT_CONFIG_META_KEY))
+  );
+  return config || null;
+}
+
+async function getSessionSecret(): Promise<string | null> {
+  const result = await chrome.storage.session.get([SESSION_SECRET_KEY]);
+  return result[SESSION_SECRET_KEY] || null;
+}
+
+// Codec cache, rebuilt when the unlocked secret changes
+let cachedCodec: { secret: string; codec: RecordCodec } | null = null;
+
+/**
+ * Get the codec for the current vault state. Throws VAULT_LOCKED_ERROR when
+ * the vault is enabled but locked.
+ */
+export async function getRecordCodec(): Promise<RecordCodec> {
+  const config = await getVaultConfig();
+  if (!config) return plainCodec;
+
+  const secret = await getSessionSecret();
+  if (!secret) {
+    throw new Error(VAULT_LOCKED_ERROR);
+  }
+
+  if (!cachedCodec || cachedCodec.secret !== secret) {
+    cachedCodec = { secret, codec: await createRecordCodec(secret) };
+  }
+  return cachedCodec.codec;
+}
+
+/**
+ * Check whether an error means the vault is locked
+ */
+export function isVaultLockedError(error: unknown): boolean {
+  return error instanceof Error && error.message === VAULT_LOCKED_ERROR;
+}
+
+/**
+ * Get the vault state for the popup
+ */
+export async function getVaultStatus(): Promise<VaultStatus> {
+  try {
+    const config = await getVaultConfig();
+    const pending = await chrome.storage.local.get([PENDING_LOGINS_KEY]);
+    return {
+      enabled: !!config,
+      unlocked: !config || !!(await getSessionSecret()),
+      autoLockMinutes: config ? config.autoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES,
+      pendingLogins: (pending[PENDING_LOGINS_KEY] || []).length
+    };
+  } catch (error) {
+    console.error('Error getting vault status:', error);
+    return { enabled: false, unlocked: true, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES, pendingLogins: 0 };
+  }
+}
+
+/**
+ * Generate a new vault secret protected by a passphrase and a recovery key.
+ * Nothing is stored; the caller saves the config with the re-encoded data.
+ */
+export async function createVault(passphrase: string, autoLockMinutes: number): Promise<NewVault> {
+  const secretBytes = randomBytes(SECRET_BYTES);
+  const recoveryBytes = randomBytes(SECRET_BYTES);
+  const salt = toBase64(randomBytes(16));
+  const recoveryKey = formatRecoveryKey(recoveryBytes);
+
+  const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { recordKey } = await deriveSecretKeys(toBase64(secretBytes));
+
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveKey']);
+  const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+
+  const config: VaultConfig = {
+    version: 1,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    wrappedSecret: await seal(passphraseKey, secretBytes),
+    recoveryWrappedSecret: await seal(await importRecoveryKey(recoveryKey), secretBytes),
+    publicKey,
+    wrappedPrivateKey: await seal(recordKey, encoder.encode(JSON.stringify(privateKey))),
+    autoLockMinutes
+  };
+
+  return { config, secret: toBase64(secretBytes), recoveryKey };
+}
+
+/**
+ * Recover the vault secret with the passphrase (throws if it is wrong)
+ */
+export async function unwrapSecretWithPassphrase(config: VaultConfig, passphrase: string): Promise<string> {
+  const passphraseKey = await derivePassphraseKey(passphrase, config.salt, config.iterations);
+  try {
+    return toBase64(await unseal(passphraseKey, config.wrappedSecret));
+  } catch (error) {
+    throw new Error('Incorrect passphrase');
+  }
+}
+
+/**
+ * Recover the vault secret with the recovery key (throws if it is wrong)
+ */
+async function unwrapSecretWithRecoveryKey(config: VaultConfig, recoveryKey: string): Promise<string> {
+  try {
+    return toBase64(await unseal(await importRecoveryKey(recoveryKey), config.recoveryWrappedSecret));
+  } catch (error) {
+    throw new Error('Incorrect recovery key');
+  }
+}
+
+/**
+ * Store the vault config (must only be called while the vault is enabled)
+ */
+async function saveVaultConfig(config: VaultConfig): Promise<void> {
+  await writeTransaction([], async transaction => {
+    transaction.objectStore(META_STORE).put(config, VAULT_CONFIG_META_KEY);
+  });
+}
+
+/**
+ * Keep the secret for this browser session and (re)start the auto-lock timer
+ */
+export async function openVaultSession(secret: string, autoLockMinutes: number): Promise<void> {
+  await chrome.storage.session.set({ [SESSION_SECRET_KEY]: secret });
+  touchVault(autoLockMinutes);
+}
+
+/**
+ * Restart the auto-lock timer (0 disables auto-lock)
+ */
+export function touchVault(autoLockMinutes: number): void {
+  chrome.alarms.clear(VAULT_LOCK_ALARM);
+  if (autoLockMinutes > 0) {
+    chrome.alarms.create(VAULT_LOCK_ALARM, { delayInMinutes: autoLockMinutes });
+  }
+}
+
+/**
+ * Unlock the vault with the passphrase or the recovery key
+ */
+export async function unlockVault(credentials: { passphrase?: string; recoveryKey?: string }): Promise<{ success: boolean; error?: string }> {
+  try {
+    const config = await getVaultConfig();
+    if (!config) {
+      return { success: false, error: 'Vault is not enabled' };
+    }
+
+    const secret = credentials.recoveryKey
+      ? await unwrapSecretWithRecoveryKey(config, credentials.recoveryKey)
+      : await unwrapSecretWithPassphrase(config, credentials.passphrase || '');
+
+    await openVaultSession(secret, config.autoLockMinutes);
+    console.log('Vault unlocked');
+    return { success: true };
+  } catch (error) {
+    console.error('Error unlocking vault:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to unlock vault' };
+  }
+}
+
+/**
+ * Forget the session secret so stored data can no longer be read
+ */
+export async function lockVault(): Promise<void> {
+  await chrome.storage.session.remove([SESSION_SECRET_KEY]);
+  chrome.alarms.clear(VAULT_LOCK_ALARM);
+  cachedCodec = null;
+  console.log('Vault locked');
+}
+
+/**
+ * Re-wrap the vault secret under a new passphrase. The current passphrase
+ * or the recovery key proves ownership; stored records are not re-encrypted.
+ */
+export async function changeVaultPassphrase(
+  credentials: { passphrase?: string; recoveryKey?: string },
+  newPassphrase: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const config = await getVaultConfig();
+    if (!config) {
+      return { success: false, error: 'Vault is not enabled' };
+    }
+
+    const secret = credentials.recoveryKey
+      ? await unwrapSecretWithRecoveryKey(config, credentials.recoveryKey)
+      : await unwrapSecretWithPassphrase(config, credentials.passphrase || '');
+
+    const salt = toBase64(randomBytes(16));
+    const passphraseKey = await derivePassphraseKey(newPassphrase, salt, PBKDF2_ITERATIONS);
+
+    await saveVaultConfig({
+      ...config,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      wrappedSecret: await seal(passphraseKey, fromBase64(secret))
+    });
+    await openVaultSession(secret, config.autoLockMinutes);
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing vault passphrase:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to change passphrase' };
+  }
+}
+
+/**
+ * Issue a new recovery key (the previous one stops working)
+ */
+export async function exportRecoveryKey(passphrase: string): Promise<{ success: boolean; recoveryKey?: string; error?: string }> {
+  try {
+    const config = await getVaultConfig();
+    if (!config) {
+      return { success: false, error: 'Vault is not enabled' };
+    }
+
+    const secret = await unwrapSecretWithPassphrase(config, passphrase);
+    const recoveryKey = formatRecoveryKey(randomBytes(SECRET_BYTES));
+
+    await saveVaultConfig({
+      ...config,
+      recoveryWrappedSecret: await seal(await importRecoveryKey(recoveryKey), fromBase64(secret))
+    });
+    return { success: true, recoveryKey };
+  } catch (error) {
+    console.error('Error exporting recovery key:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to export recovery key' };
+  }
+}
+
+/**
+ * Change the auto-lock timeout in minutes (0 never locks automatically)
+ */
+export async function setAutoLockMinutes(autoLockMinutes: number): Promise<boolean> {
+  try {
+    const config = await getVaultConfig();
+    if (!config) return false;
+
+    await saveVaultConfig({ ...config, autoLockMinutes });
+    if (await getSessionSecret()) {
+      touchVault(autoLockMinutes);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error setting auto-lock timeout:', error);
+    return false;
+  }
+}
+
+/**
+ * Seal a login detected while the vault is locked, to be replayed on unlock
+ */
+export async function queuePendingLogin(login: object): Promise<boolean> {
+  try {
+    const config = await getVaultConfig();
+    if (!config) return false;
+
+    const publicKey = await crypto.subtle.importKey('jwk', config.publicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+      { name: 'ECDH', public: publicKey },
+      ephemeral.privateKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt']
+    );
+
+    const pending: PendingLogin = {
+      ...(await seal(key, encoder.encode(JSON.stringify(login)))),
+      ephemeralKey: await crypto.subtle.exportKey('jwk', ephemeral.publicKey)
+    };
+
+    await updateStorageValue<PendingLogin[]>(PENDING_LOGINS_KEY, current => [...(current || []), pending]);
+    return true;
+  } catch (error) {
+    console.error('Error queueing login while locked:', error);
+    return false;
+  }
+}
+
+/**
+ * Decrypt the logins queued while the vault was locked and hand each to
+ * `replay`. A login is removed from the queue only once `replay` returns
+ * true; failed ones (and ones that can't be opened) stay for the next unlock.
+ * Returns how many were replayed.
+ */
+export async function drainPendingLogins<T>(replay: (login: T) => Promise<boolean>): Promise<number> {
+  const stored = await chrome.storage.local.get([PENDING_LOGINS_KEY]);
+  const pending: PendingLogin[] = stored[PENDING_LOGINS_KEY] || [];
+  if (pending.length === 0) return 0;
+
+  const config = await getVaultConfig();
+  const secret = await getSessionSecret();
+  if (!config || !secret) return 0;
+
+  const { recordKey } = await deriveSecretKeys(secret);
+  const privateJwk = JSON.parse(decoder.decode(await unseal(recordKey, config.wrappedPrivateKey)));
+  const privateKey = await crypto.subtle.importKey('jwk', privateJwk, { name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveKey']);
+
+  // Sealed entries are told apart by their random IV
+  const replayed = new Set<string>();
+  for (const entry of pending) {
+    let login: T;
+    try {
+      const ephemeralKey = await crypto.subtle.importKey('jwk', entry.ephemeralKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+      const key = await crypto.subtle.deriveKey(
+        { name: 'ECDH', public: ephemeralKey },
+        privateKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+      );
+      login = JSON.parse(decoder.decode(await unseal(key, entry)));
+    } catch (error) {
+      console.error('Error opening pending login, keeping it queued:', error);
+      continue;
+    }
+
+    if (await replay(login)) {
+      replayed.add(entry.iv);
+    }
+  }
+
+  // Only drop the entries that were replayed, in case more arrived meanwhile
+  if (replayed.size > 0) {
+    await updateStorageValue<PendingLogin[]>(PENDING_LOGINS_KEY, current => (current || []).filter(entry => !replayed.has(entry.iv)));
+  }
+  return replayed.size;
+}
+
+/**
+ * Drop queued logins (used when the vault is turned off)
+ */
+export async function clearPendingLogins(): Promise<void> {
+  await chrome.storage.local.remove([PENDING_LOGINS_KEY]);
+}
@@ -0,0 +1,28 @@
+// Serialized writes for Login Tracker Extension
+
+// Tail of the write queue for this extension context
+let queueTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a write after every previously queued write in this context has settled
+ */
+export function enqueueWrite<T>(work: () => Promise<T>): Promise<T> {
+  const run = queueTail.then(work, work);
+  queueTail = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read-modify-write a chrome.storage.local value through the write queue
+ */
+export function updateStorageValue<T>(
+  key: string,
+  update: (current: T | undefined) => T
+): Promise<T> {
+  return enqueueWrite(async () => {
+    const result = await chrome.storage.local.get([key]);
+    const next = update(result[key] as T | undefined);
+    await chrome.storage.local.set({ [key]: next });
+    return next;
+  });
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { classifyAccountUrl } from '../src/utils/accountEvents';
+
+describe('classifyAccountUrl', () => {
+  it('classifies by path', () => {
+    expect(classifyAccountUrl('https://example.com/users/sign_up')).toBe('signup');
+    expect(classifyAccountUrl('https://example.com/login/forgot-password')).toBe('password_reset');
+    expect(classifyAccountUrl('https://example.com/account/logout')).toBe('logout');
+    expect(classifyAccountUrl('https://example.com/api/auth/sign-out?redirect=/')).toBe('logout');
+  });
+
+  it('does not let a query mentioning a logout override the path', () => {
+    expect(classifyAccountUrl('https://example.com/login?logout')).toBe('login');
+    expect(classifyAccountUrl('https://example.com/signin?next=/sign-out')).toBe('login');
+    expect(classifyAccountUrl('https://example.com/login?reason=logout')).toBe('login');
+  });
+
+  it('never classifies a logout from the query alone', () => {
+    expect(classifyAccountUrl('https://example.com/collect?event=logout_click')).toBeNull();
+    expect(classifyAccountUrl('https://example.com/?next=/sign-out')).toBeNull();
+  });
+
+  it('falls back to the query for other events', () => {
+    expect(classifyAccountUrl('https://example.com/index.php?action=register')).toBe('signup');
+  });
+
+  it('splits URLs it cannot parse at the query', () => {
+    expect(classifyAccountUrl('/login?logout')).toBe('login');
+    expect(classifyAccountUrl('/logout')).toBe('logout');
+  });
+});
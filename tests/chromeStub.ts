@@ -0,0 +1,113 @@
+// In-memory stand-in for the chrome.* APIs the storage modules use
+
+type Listener = (...args: any[]) => void;
+
+function createEvent() {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: (listener: Listener) => listeners.add(listener),
+    removeListener: (listener: Listener) => listeners.delete(listener),
+    emit: (...args: unknown[]) => listeners.forEach(listener => listener(...args))
+  };
+}
+
+function createStorageArea(name: string, onChanged: ReturnType<typeof createEvent>) {
+  let items: Record<string, unknown> = {};
+  const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+  return {
+    async get(keys?: string | string[] | null) {
+      if (keys === undefined || keys === null) return clone(items);
+      const list = Array.isArray(keys) ? keys : [keys];
+      const result: Record<string, unknown> = {};
+      list.forEach(key => {
+        if (key in items) result[key] = clone(items[key]);
+      });
+      return result;
+    },
+    async set(values: Record<string, unknown>) {
+      const changes: Record<string, chrome.storage.StorageChange> = {};
+      Object.entries(values).forEach(([key, value]) => {
+        changes[key] = { oldValue: items[key], newValue: clone(value) };
+        items[key] = clone(value);
+      });
+      onChanged.emit(changes, name);
+    },
+    async remove(keys: string | string[]) {
+      (Array.isArray(keys) ? keys : [keys]).forEach(key => delete items[key]);
+    },
+    async clear() {
+      items = {};
+    }
+  };
+}
+
+/**
+ * Install a fresh `chrome` global with empty storage
+ */
+export function installChromeStub(): void {
+  const onChanged = createEvent();
+  (globalThis as any).chrome = {
+    storage: {
+      local: createStorageArea('local', onChanged),
+      session: createStorageArea('session', onChanged),
+      onChanged
+    },
+    alarms: {
+      create: () => undefined,
+      clear: async () => true
+    },
+    runtime: {
+      lastError: undefined
+    }
+  };
+}
+
+/**
+ * Add the browser APIs the background script registers listeners on at load
+ * (no tabs, cookies or notifications exist)
+ */
+export function installBackgroundStub(): void {
+  const stub = (globalThis as any).chrome;
+  const events = (...names: string[]) => Object.fromEntries(names.map(name => [name, createEvent()]));
+
+  Object.assign(stub.runtime, {
+    ...events('onInstalled', 'onStartup', 'onMessage'),
+    getURL: (path: string) => `chrome-extension://test/${path}`
+  });
+  Object.assign(stub.alarms, { ...events('onAlarm'), get: async () => undefined });
+  stub.webRequest = events('onBeforeRequest', 'onBeforeRedirect', 'onCompleted', 'onErrorOccurred');
+  stub.tabs = {
+    ...events('onActivated', 'onCreated', 'onRemoved', 'onUpdated'),
+    get: async (tabId: number) => {
+      throw new Error(`No tab with id: ${tabId}`);
+    },
+    query: async () => [],
+    create: async () => ({}),
+    reload: async () => undefined,
+    sendMessage: async () => undefined
+  };
+  stub.windows = { ...events('onFocusChanged'), WINDOW_ID_NONE: -1 };
+  stub.cookies = {
+    ...events('onChanged'),
+    getAll: async () => [],
+    set: async () => null,
+    remove: async () => null
+  };
+  stub.notifications = {
+    ...events('onClicked', 'onButtonClicked', 'onClosed'),
+    create: (_id: string, _options: unknown, callback?: () => void) => callback?.(),
+    update: (_id: string, _options: unknown, callback?: (wasUpdated: boolean) => void) => callback?.(false),
+    clear: (_id: string, callback?: () => void) => callback?.()
+  };
+  stub.contextMenus = {
+    ...events('onClicked'),
+    create: (_properties: unknown, callback?: () => void) => callback?.(),
+    removeAll: async () => undefined
+  };
+  stub.action = {
+    setBadgeText: async () => undefined,
+    setBadgeBackgroundColor: async () => undefined,
+    setTitle: async () => undefined
+  };
+}
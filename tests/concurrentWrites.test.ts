@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { installBackgroundStub } from './chromeStub';
+
+type StorageModule = typeof import('../src/utils/storage');
+
+/**
+ * Load the storage module as another extension context would: its own
+ * database connection and write queue, sharing the same IndexedDB
+ */
+async function loadContext(): Promise<StorageModule> {
+  vi.resetModules();
+  return import('../src/utils/storage');
+}
+
+function totalCount(mappings: Awaited<ReturnType<StorageModule['getEmailMappings']>>, domain: string): number {
+  return (mappings[domain] || []).reduce((sum, entry) => sum + entry.count, 0);
+}
+
+describe('parallel LOGIN_DETECTED messages', () => {
+  it('count every login sent through the background message router', async () => {
+    installBackgroundStub();
+    const { messageHandlers } = await import('../src/background/background');
+    const { createMessageRouter } = await import('../src/utils/messaging');
+    const storage = await import('../src/utils/storage');
+    const loginEvents = await import('../src/utils/loginEvents');
+    const router = createMessageRouter(messageHandlers);
+    const logins = 20;
+
+    const send = (message: unknown) => new Promise<unknown>(resolve => {
+      router(message, { url: 'https://example.com/login' }, resolve);
+    });
+
+    const replies = await Promise.all(Array.from({ length: logins }, (_, index) => send({
+      type: 'LOGIN_DETECTED',
+      data: {
+        email: 'alice@example.com',
+        website: 'www.example.com',
+        timestamp: Date.now(),
+        url: `https://www.example.com/login?attempt=${index}`,
+        method: 'tap_capture'
+      }
+    })));
+
+    expect(replies).toEqual(Array.from({ length: logins }, () => ({ ok: true, response: { success: true } })));
+    const [entry] = (await storage.getEmailMappings())['example.com'] || [];
+    expect(entry).toMatchObject({ email: 'alice@example.com', count: logins, methods: { tap_capture: logins } });
+    expect(await loginEvents.getLoginEvents({ domain: 'example.com' })).toHaveLength(logins);
+  });
+
+  it('are rejected by the router when the payload is invalid', async () => {
+    installBackgroundStub();
+    const { messageHandlers } = await import('../src/background/background');
+    const { createMessageRouter } = await import('../src/utils/messaging');
+    const router = createMessageRouter(messageHandlers);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const reply = await new Promise(resolve => {
+      router({ type: 'LOGIN_DETECTED', data: { email: 'alice@example.com' } }, {}, resolve);
+    });
+    expect(reply).toEqual({ ok: false, error: 'Invalid payload for LOGIN_DETECTED' });
+  });
+});
+
+describe('concurrent recordLogin', () => {
+  it('keeps every increment from parallel logins in one context', async () => {
+    const storage = await loadContext();
+    const logins = 20;
+
+    const results = await Promise.all(Array.from({ length: logins }, (_, index) =>
+      storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: `https://example.com/login?${index}` })
+    ));
+
+    expect(results.every(Boolean)).toBe(true);
+    expect(totalCount(await storage.getEmailMappings(), 'example.com')).toBe(logins);
+  });
+
+  it('keeps every increment when two contexts write at once', async () => {
+    const background = await loadContext();
+    const popup = await loadContext();
+    const perContext = 10;
+
+    const record = (storage: StorageModule, index: number) =>
+      storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: `https://example.com/login?${index}` });
+
+    const results = await Promise.all([
+      ...Array.from({ length: perContext }, (_, index) => record(background, index)),
+      ...Array.from({ length: perContext }, (_, index) => record(popup, index))
+    ]);
+
+    expect(results.every(Boolean)).toBe(true);
+    expect(totalCount(await background.getEmailMappings(), 'example.com')).toBe(perContext * 2);
+  });
+});
+
+describe('compareAndSwapMappings', () => {
+  it('refuses a swap based on a revision another write has moved past', async () => {
+    const storage = await loadContext();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' });
+
+    const snapshot = await storage.getMappingsSnapshot();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' });
+
+    expect(await storage.compareAndSwapMappings(snapshot.revision, snapshot.mappings)).toBe(false);
+    expect(totalCount(await storage.getEmailMappings(), 'example.com')).toBe(2);
+  });
+
+  it('loses no login when a merge loop races with detections', async () => {
+    const storage = await loadContext();
+    const sync = await loadContext();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' });
+
+    // The sync service's loop: snapshot, merge, swap, retry on conflict
+    const mergeLoop = async () => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const snapshot = await sync.getMappingsSnapshot();
+        const merged = { ...snapshot.mappings, 'remote.com': [{ email: 'bob@remote.com', apiUrl: 'https://remote.com', timestamp: 1, count: 1 }] };
+        if (await sync.compareAndSwapMappings(snapshot.revision, merged)) return true;
+      }
+      return false;
+    };
+
+    const [merged] = await Promise.all([
+      mergeLoop(),
+      ...Array.from({ length: 5 }, () =>
+        storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' })
+      )
+    ]);
+
+    const mappings = await storage.getEmailMappings();
+    expect(merged).toBe(true);
+    expect(totalCount(mappings, 'example.com')).toBe(6);
+    expect(mappings['remote.com']).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+async function loadModules() {
+  const storage = await import('../src/utils/storage');
+  const cookieJars = await import('../src/utils/cookieJars');
+  const trash = await import('../src/utils/trash');
+  return { storage, cookieJars, trash };
+}
+
+const SESSION_COOKIE = {
+  name: 'sid',
+  value: 'secret-session',
+  domain: '.example.com',
+  hostOnly: false,
+  path: '/',
+  secure: true,
+  httpOnly: true,
+  sameSite: 'lax' as chrome.cookies.SameSiteStatus
+};
+
+describe('cookie jars', () => {
+  it('survive the vault being turned on and off', async () => {
+    const { storage, cookieJars } = await loadModules();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    expect(await cookieJars.saveCookieJar({
+      domain: 'example.com',
+      email: 'alice@example.com',
+      site: 'example.com',
+      timestamp: 1000,
+      cookies: [SESSION_COOKIE]
+    })).toBe(true);
+
+    expect((await storage.enableVault('correct horse battery staple', 15)).success).toBe(true);
+    expect(await cookieJars.pruneCookieJars()).toBe(0);
+    expect(await cookieJars.getCookieJarsForSite('example.com')).toEqual([
+      expect.objectContaining({ email: 'alice@example.com', cookies: [SESSION_COOKIE] })
+    ]);
+
+    expect((await storage.disableVault('correct horse battery staple')).success).toBe(true);
+    expect(await cookieJars.pruneCookieJars()).toBe(0);
+    expect(await cookieJars.getCookieJarsForSite('example.com')).toEqual([
+      expect.objectContaining({ email: 'alice@example.com', cookies: [SESSION_COOKIE] })
+    ]);
+  });
+
+  it('are kept while their mapping is in the trash', async () => {
+    const { storage, cookieJars, trash } = await loadModules();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await cookieJars.saveCookieJar({
+      domain: 'example.com',
+      email: 'alice@example.com',
+      site: 'example.com',
+      timestamp: 1000,
+      cookies: [SESSION_COOKIE]
+    });
+
+    await storage.deleteEmailMapping('example.com', 'alice@example.com');
+    expect(await cookieJars.pruneCookieJars()).toBe(0);
+
+    const [trashed] = await trash.getTrashEntries();
+    expect((await storage.restoreFromTrash({ ids: [trashed.id] })).success).toBe(true);
+    expect(await cookieJars.pruneCookieJars()).toBe(0);
+    expect(await cookieJars.getCookieJarsForSite('example.com')).toEqual([
+      expect.objectContaining({ email: 'alice@example.com', cookies: [SESSION_COOKIE] })
+    ]);
+  });
+
+  it('are pruned once their mapping leaves the trash', async () => {
+    const { storage, cookieJars, trash } = await loadModules();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await cookieJars.saveCookieJar({
+      domain: 'example.com',
+      email: 'alice@example.com',
+      site: 'example.com',
+      timestamp: 1000,
+      cookies: [SESSION_COOKIE]
+    });
+
+    await storage.deleteEmailMapping('example.com', 'alice@example.com');
+    expect(await trash.emptyTrash()).toBe(true);
+    expect(await cookieJars.pruneCookieJars()).toBe(1);
+    expect(await cookieJars.getCookieJars()).toEqual([]);
+  });
+});
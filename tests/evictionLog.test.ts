@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+async function loadModules() {
+  const storage = await import('../src/utils/storage');
+  const retention = await import('../src/utils/retention');
+  return { storage, retention };
+}
+
+async function readStoredLog(): Promise<string> {
+  const result = await chrome.storage.local.get(['evictionLog']);
+  return JSON.stringify(result.evictionLog || []);
+}
+
+describe('eviction log', () => {
+  it('keeps no domain or email readable at rest while the vault is on', async () => {
+    const { storage, retention } = await loadModules();
+    await retention.saveRetentionPolicy({ ...retention.DEFAULT_RETENTION_POLICY, maxAccountsPerDomain: 1 });
+
+    // Logged before the vault existed, then sealed when it is turned on
+    await storage.recordLogin({ domain: 'before.com', email: 'old@before.com', url: 'https://before.com/login', timestamp: 1000 });
+    await storage.recordLogin({ domain: 'before.com', email: 'new@before.com', url: 'https://before.com/login', timestamp: 2000 });
+    expect(await readStoredLog()).toContain('old@before.com');
+
+    expect((await storage.enableVault('correct horse battery staple', 15)).success).toBe(true);
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 3000 });
+    await storage.recordLogin({ domain: 'example.com', email: 'bob@example.com', url: 'https://example.com/login', timestamp: 4000 });
+
+    const stored = await readStoredLog();
+    expect(stored).not.toContain('example.com');
+    expect(stored).not.toContain('before.com');
+
+    const log = await retention.getEvictionLog();
+    expect(log.map(record => [record.domain, record.email])).toEqual([
+      ['example.com', 'alice@example.com'],
+      ['before.com', 'old@before.com']
+    ]);
+    expect(log[0]).not.toHaveProperty('timestamp');
+  });
+
+  it('is readable in plaintext again after the vault is turned off', async () => {
+    const { storage, retention } = await loadModules();
+    await retention.saveRetentionPolicy({ ...retention.DEFAULT_RETENTION_POLICY, maxAccountsPerDomain: 1 });
+    await storage.enableVault('correct horse battery staple', 15);
+
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await storage.recordLogin({ domain: 'example.com', email: 'bob@example.com', url: 'https://example.com/login', timestamp: 2000 });
+
+    expect((await storage.disableVault('correct horse battery staple')).success).toBe(true);
+    expect(await readStoredLog()).toContain('alice@example.com');
+    expect((await retention.getEvictionLog())[0]).toMatchObject({ domain: 'example.com', email: 'alice@example.com' });
+  });
+});
+
+describe('retention evictions', () => {
+  it('move the account and its login history to the trash', async () => {
+    const { storage, retention } = await loadModules();
+    const trash = await import('../src/utils/trash');
+    const loginEvents = await import('../src/utils/loginEvents');
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await storage.recordLogin({ domain: 'example.com', email: 'bob@example.com', url: 'https://example.com/login', timestamp: 2000 });
+
+    await retention.saveRetentionPolicy({ ...retention.DEFAULT_RETENTION_POLICY, maxAccountsPerDomain: 1 });
+    expect(await storage.enforceRetention()).toHaveLength(1);
+
+    expect((await loginEvents.getLoginEvents({ domain: 'example.com' })).map(event => event.email)).toEqual(['bob@example.com']);
+    const entries = await trash.getTrashEntries();
+    expect(entries).toEqual([expect.objectContaining({ domain: 'example.com', loginCount: 1 })]);
+    expect(entries[0]?.mapping.email).toBe('alice@example.com');
+
+    await retention.saveRetentionPolicy(retention.DEFAULT_RETENTION_POLICY);
+    expect((await storage.restoreFromTrash({ ids: entries.map(entry => entry.id) })).success).toBe(true);
+    expect(await loginEvents.getLoginEvents({ domain: 'example.com', email: 'alice@example.com' })).toHaveLength(1);
+  });
+
+  it('evicted while recording a login go to the trash too', async () => {
+    const { storage, retention } = await loadModules();
+    const trash = await import('../src/utils/trash');
+    const loginEvents = await import('../src/utils/loginEvents');
+    await retention.saveRetentionPolicy({ ...retention.DEFAULT_RETENTION_POLICY, maxAccountsPerDomain: 1 });
+
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await storage.recordLogin({ domain: 'example.com', email: 'bob@example.com', url: 'https://example.com/login', timestamp: 2000 });
+
+    expect((await loginEvents.getLoginEvents({ domain: 'example.com' })).map(event => event.email)).toEqual(['bob@example.com']);
+    expect((await trash.getTrashEntries()).map(entry => entry.mapping.email)).toEqual(['alice@example.com']);
+  });
+});
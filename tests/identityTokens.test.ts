@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { decodeIdToken, decodeSamlResponse, findIdentityInParams, findIdentityInUrl } from '../src/utils/identityTokens';
+import idTokens from './fixtures/idTokens.json';
+
+const FIXTURES = join(__dirname, 'fixtures', 'saml');
+
+function readSamlFixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+// HTTP-POST binding: the XML base64-encoded as is
+function encodePostBinding(xml: string): string {
+  return Buffer.from(xml, 'utf8').toString('base64');
+}
+
+describe('decodeIdToken', () => {
+  it('reads the email, subject and issuer of a Google id_token', () => {
+    expect(decodeIdToken(idTokens.google)).toEqual({
+      protocol: 'oidc',
+      email: 'jane.doe@gmail.com',
+      subject: '10769150350006150715113082367',
+      issuer: 'https://accounts.google.com',
+      token: idTokens.google
+    });
+  });
+
+  it('falls back to preferred_username for Microsoft work accounts', () => {
+    const identity = decodeIdToken(idTokens.microsoftWork);
+    expect(identity?.email).toBe('carol@contoso.onmicrosoft.com');
+    expect(identity?.issuer).toBe('https://login.microsoftonline.com/9122040d-6c67-4c5b-b112-36a304b66dad/v2.0');
+  });
+
+  it('keeps the subject but no email when no claim holds an email', () => {
+    const phoneOnly = decodeIdToken(idTokens.phoneOnly);
+    expect(phoneOnly).toMatchObject({ protocol: 'oidc', subject: '001234.5f6e7d8c9b0a.1234', issuer: 'https://appleid.apple.com' });
+    expect(phoneOnly?.email).toBeUndefined();
+
+    const invalidEmail = decodeIdToken(idTokens.invalidEmailClaim);
+    expect(invalidEmail).toMatchObject({ subject: 'user-42' });
+    expect(invalidEmail?.email).toBeUndefined();
+  });
+
+  it.each([
+    ['a token without three parts', idTokens.twoParts],
+    ['a payload that is not JSON', idTokens.notJson],
+    ['a payload that is not an object', idTokens.nonObjectPayload],
+    ['a payload that is not base64', idTokens.badBase64],
+    ['an empty string', '']
+  ])('rejects %s', (_, token) => {
+    expect(decodeIdToken(token)).toBeNull();
+  });
+});
+
+describe('decodeSamlResponse', () => {
+  it('reads an email NameID and the issuer from an Okta response', () => {
+    const response = encodePostBinding(readSamlFixture('okta-email-nameid.xml'));
+    expect(decodeSamlResponse(response)).toEqual({
+      protocol: 'saml',
+      email: 'alice.smith@example.com',
+      subject: 'Alice.Smith@Example.com',
+      issuer: 'http://www.okta.com/exk1a2b3c4d5e6f7g8h9',
+      token: response
+    });
+  });
+
+  it('reads the email attribute when the NameID is not an email (ADFS)', () => {
+    const identity = decodeSamlResponse(encodePostBinding(readSamlFixture('adfs-attribute-email.xml')));
+    expect(identity).toMatchObject({
+      protocol: 'saml',
+      email: 'bob.jones@corp.example.org',
+      subject: 'CORP\\bob.jones',
+      // XML entities in the issuer are decoded
+      issuer: 'http://adfs.corp.example.org/adfs/services/trust?realm=app&v=2'
+    });
+  });
+
+  it('keeps the subject but no email when no attribute holds one', () => {
+    const identity = decodeSamlResponse(encodePostBinding(readSamlFixture('no-email.xml')));
+    expect(identity).toMatchObject({ subject: '_8f4e2a9c71b3', issuer: 'https://idp.example.net/saml' });
+    expect(identity?.email).toBeUndefined();
+  });
+
+  it('accepts line-wrapped base64, as some identity providers post it', () => {
+    const wrapped = encodePostBinding(readSamlFixture('okta-email-nameid.xml')).replace(/(.{76})/g, '$1\r\n');
+    expect(decodeSamlResponse(wrapped)?.email).toBe('alice.smith@example.com');
+  });
+
+  it('rejects XML that is not a SAML response', () => {
+    expect(decodeSamlResponse(encodePostBinding(readSamlFixture('authn-request.xml')))).toBeNull();
+  });
+
+  it('rejects a deflated response (HTTP-Redirect binding), which it does not inflate', () => {
+    const deflated = deflateRawSync(Buffer.from(readSamlFixture('okta-email-nameid.xml'))).toString('base64');
+    expect(decodeSamlResponse(deflated)).toBeNull();
+  });
+
+  it.each([
+    ['text that is not base64', '<<not base64>>'],
+    ['base64 of plain text', Buffer.from('hello world').toString('base64')],
+    ['an empty string', '']
+  ])('rejects %s', (_, value) => {
+    expect(decodeSamlResponse(value)).toBeNull();
+  });
+});
+
+describe('findIdentityInParams / findIdentityInUrl', () => {
+  it('prefers an id_token and falls back to a SAMLResponse', () => {
+    const saml = encodePostBinding(readSamlFixture('okta-email-nameid.xml'));
+    const params = new URLSearchParams({ id_token: idTokens.notJson, SAMLResponse: saml });
+    expect(findIdentityInParams(params)?.protocol).toBe('saml');
+
+    params.set('id_token', idTokens.google);
+    expect(findIdentityInParams(params)?.protocol).toBe('oidc');
+  });
+
+  it('finds an id_token in the URL fragment of an implicit flow', () => {
+    const url = `https://app.example.com/callback#state=xyz&id_token=${idTokens.google}`;
+    expect(findIdentityInUrl(url)?.email).toBe('jane.doe@gmail.com');
+  });
+
+  it('returns null for URLs without an assertion or that do not parse', () => {
+    expect(findIdentityInUrl('https://app.example.com/callback?code=abc')).toBeNull();
+    expect(findIdentityInUrl('not a url')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+describe('chrome.storage import', () => {
+  it('imports valid mappings and events and skips malformed ones', async () => {
+    await chrome.storage.local.set({
+      schemaVersion: 3,
+      emailMappings: {
+        'example.com': [{ email: 'alice@example.com', apiUrl: 'https://example.com/login', timestamp: 1000, count: 1 }],
+        'broken.com': 'not a list'
+      },
+      loginEvents: [
+        { id: 'event-1', timestamp: 1000, domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' },
+        { timestamp: 2000, domain: 'example.com', email: 'no-id@example.com', url: 'https://example.com/login' },
+        'not an event',
+        null
+      ]
+    });
+
+    const storage = await import('../src/utils/storage');
+    const loginEvents = await import('../src/utils/loginEvents');
+
+    expect(await storage.getEmailMappings()).toEqual({
+      'example.com': [expect.objectContaining({ email: 'alice@example.com', count: 1 })]
+    });
+    expect((await loginEvents.getLoginEvents()).map(event => event.id)).toEqual(['event-1']);
+    expect(await chrome.storage.local.get(['emailMappings', 'loginEvents'])).toEqual({});
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { installBackgroundStub } from './chromeStub';
+
+async function loadModules() {
+  const storage = await import('../src/utils/storage');
+  const loginNotifications = await import('../src/background/loginNotifications');
+  return { storage, loginNotifications };
+}
+
+describe('login notifications', () => {
+  it('remove every listed account when "Not my accounts" is clicked', async () => {
+    installBackgroundStub();
+    // Keep the site's notification open so later logins are added to it
+    chrome.notifications.update = ((_id: string, _options: unknown, callback?: (wasUpdated: boolean) => void) =>
+      callback?.(true)) as typeof chrome.notifications.update;
+    const { storage, loginNotifications } = await loadModules();
+    loginNotifications.initializeLoginNotifications();
+
+    for (const email of ['alice@example.com', 'bob@example.com', 'carol@example.com']) {
+      await storage.recordLogin({ domain: 'example.com', email, url: 'https://example.com/login' });
+      await loginNotifications.notifyLoginDetected({ domain: 'example.com', hostname: 'example.com', email, type: 'login', isNew: true });
+    }
+    await storage.recordLogin({ domain: 'example.com', email: 'dave@example.com', url: 'https://example.com/login' });
+
+    (chrome.notifications.onButtonClicked as any).emit('login|example.com', 0);
+
+    await vi.waitFor(async () => {
+      expect((await storage.getEmailMappingsForDomain('example.com')).map(entry => entry.email)).toEqual(['dave@example.com']);
+    });
+  });
+});
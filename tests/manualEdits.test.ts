@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+async function loadStorage() {
+  return import('../src/utils/storage');
+}
+
+describe('domains typed in the popup', () => {
+  it('are added under the storage key detected logins use', async () => {
+    const storage = await loadStorage();
+
+    expect(await storage.addEmailMapping('https://WWW.Example.com/login', 'alice@example.com')).toEqual({ success: true });
+    expect(await storage.addEmailMapping('youtube.com', 'bob@gmail.com')).toEqual({ success: true });
+
+    expect(Object.keys(await storage.getEmailMappings()).sort()).toEqual(['example.com', 'google.com']);
+    expect((await storage.getEmailMappingsForSite('login.example.com')).map(entry => entry.email)).toEqual(['alice@example.com']);
+  });
+
+  it('are renamed to the storage key detected logins use', async () => {
+    const storage = await loadStorage();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login' });
+
+    expect((await storage.renameDomain('example.com', ' Shop.Example.co.uk ')).success).toBe(true);
+    expect(Object.keys(await storage.getEmailMappings())).toEqual(['example.co.uk']);
+  });
+
+  it('are rejected when empty', async () => {
+    const storage = await loadStorage();
+
+    expect(await storage.addEmailMapping('  ', 'alice@example.com')).toEqual({ success: false, error: 'Invalid domain' });
+    expect(await storage.renameDomain('example.com', '')).toEqual({ success: false, error: 'Invalid domain' });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, SCHEMA_VERSION_KEY, StoredData, migrateStoredData, runStorageMigrations } from '../src/utils/migrations';
+import v0 from './fixtures/migrations/v0.json';
+import v1 from './fixtures/migrations/v1.json';
+import v2 from './fixtures/migrations/v2.json';
+import v3 from './fixtures/migrations/v3.json';
+import v4 from './fixtures/migrations/v4.json';
+
+// Stored data as each schema version left it, v0 being the pre-schema format
+const SNAPSHOTS: StoredData[] = [v0, v1, v2, v3, v4];
+
+describe('storage migrations', () => {
+  it('has a fixture for every schema version', () => {
+    expect(SNAPSHOTS).toHaveLength(CURRENT_SCHEMA_VERSION + 1);
+  });
+
+  MIGRATIONS.forEach(migration => {
+    it(`v${migration.version - 1} -> v${migration.version}: ${migration.description}`, () => {
+      const result = migrateStoredData(SNAPSHOTS[migration.version - 1], migration.version - 1, [migration]);
+      expect(result).toEqual({ data: SNAPSHOTS[migration.version], version: migration.version });
+    });
+  });
+
+  it('runs every step from the pre-schema format', () => {
+    expect(migrateStoredData(v0, 0)).toEqual({ data: v4, version: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('runs only the steps newer than the stored version', () => {
+    expect(migrateStoredData(v1, 1)).toEqual({ data: v4, version: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('leaves its input untouched', () => {
+    const input = JSON.parse(JSON.stringify(v0));
+    migrateStoredData(input, 0);
+    expect(input).toEqual(v0);
+  });
+
+  it('keeps site rules that already exist when converting disabled sites', () => {
+    const data = {
+      ...v2,
+      trackingSettings: {
+        isPaused: true,
+        disabledSites: ['old.com'],
+        siteRules: [{ pattern: 'kept.com', tracking: true, banner: false, formCapture: true }]
+      }
+    };
+
+    expect(migrateStoredData(data, 2).data.trackingSettings).toEqual({
+      isPaused: true,
+      siteRules: [
+        { pattern: 'kept.com', tracking: true, banner: false, formCapture: true },
+        { pattern: 'old.com', tracking: false, banner: false, formCapture: false }
+      ]
+    });
+  });
+
+  it('copies only known fields of the right type from legacy entries', () => {
+    const data = {
+      emailMappings: {
+        'example.com': [{
+          email: 'alice@example.com',
+          apiUrl: 'https://example.com/login',
+          timestamp: 1000,
+          count: 2,
+          description: 42,
+          pinned: true,
+          methods: 'x',
+          session: 5,
+          provider: { id: 'myspace', issuer: 'myspace.com' },
+          accountEvents: { signup: 500, hacked: 600, logout: 'soon' },
+          innerHTML: '<img src=x onerror=alert(1)>'
+        }]
+      }
+    };
+
+    expect(migrateStoredData(data, 0).data.emailMappings).toEqual({
+      'example.com': [{
+        email: 'alice@example.com',
+        apiUrl: 'https://example.com/login',
+        timestamp: 1000,
+        count: 2,
+        pinned: true,
+        accountEvents: { signup: 500 },
+        firstSourceUrl: 'https://example.com/login',
+        lastSourceUrl: 'https://example.com/login'
+      }]
+    });
+  });
+
+  it('re-keys login events by the site they were detected on', () => {
+    const data = {
+      ...v3,
+      loginEvents: [
+        { id: 'a', timestamp: 1000, domain: 'github.io', email: 'erin@example.com', url: 'https://erin.github.io/login' },
+        { id: 'b', timestamp: 2000, domain: 'github.io', email: 'frank@example.com', url: 'https://frank.github.io/login' },
+        { id: 'c', timestamp: 3000, domain: 'WWW.Shop.com', email: 'bob@shop.com', url: 'https://www.shop.com/login' },
+        { id: 'd', timestamp: 4000, domain: 'com.cn', email: 'gina@example.com', url: 'manual://user-added' }
+      ]
+    };
+
+    expect((migrateStoredData(data, 3).data.loginEvents as StoredData[]).map(event => event.domain)).toEqual([
+      'erin.github.io',
+      'frank.github.io',
+      'shop.com',
+      'com.cn'
+    ]);
+  });
+
+  it('upgrades chrome.storage.local in place and records the version', async () => {
+    await chrome.storage.local.set(v0);
+
+    expect(await runStorageMigrations()).toBe(CURRENT_SCHEMA_VERSION);
+    const stored = await chrome.storage.local.get(null);
+    expect(stored).toEqual({ ...v4, [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION });
+
+    // A second run finds nothing to do
+    expect(await runStorageMigrations()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(await chrome.storage.local.get(null)).toEqual(stored);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+async function loadModules() {
+  const storage = await import('../src/utils/storage');
+  const vault = await import('../src/utils/vault');
+  return { storage, vault };
+}
+
+describe('logins queued while the vault is locked', () => {
+  it('stay queued until they are recorded', async () => {
+    const { storage, vault } = await loadModules();
+    await storage.enableVault(PASSPHRASE, 15);
+    await vault.lockVault();
+
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+    await storage.recordLogin({ domain: 'example.com', email: 'bob@example.com', url: 'https://example.com/login', timestamp: 2000 });
+    expect((await vault.getVaultStatus()).pendingLogins).toBe(2);
+
+    expect((await vault.unlockVault({ passphrase: PASSPHRASE })).success).toBe(true);
+
+    // Bob's login fails to record, so only Alice's leaves the queue
+    const seen: string[] = [];
+    const replayed = await vault.drainPendingLogins<{ email: string }>(async login => {
+      seen.push(login.email);
+      return login.email === 'alice@example.com';
+    });
+    expect(seen).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(replayed).toBe(1);
+    expect((await vault.getVaultStatus()).pendingLogins).toBe(1);
+
+    expect(await storage.replayPendingLogins()).toBe(1);
+    expect((await vault.getVaultStatus()).pendingLogins).toBe(0);
+    expect((await storage.getEmailMappingsForDomain('example.com')).map(entry => entry.email)).toEqual(['bob@example.com']);
+  });
+
+  it('keeps entries that cannot be opened', async () => {
+    const { storage, vault } = await loadModules();
+    await storage.enableVault(PASSPHRASE, 15);
+    await vault.lockVault();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+
+    const stored = await chrome.storage.local.get(['vaultPendingLogins']);
+    const [entry] = stored.vaultPendingLogins;
+    await chrome.storage.local.set({ vaultPendingLogins: [{ ...entry, data: entry.data.split('').reverse().join('') }] });
+    await vault.unlockVault({ passphrase: PASSPHRASE });
+
+    expect(await storage.replayPendingLogins()).toBe(0);
+    expect((await vault.getVaultStatus()).pendingLogins).toBe(1);
+  });
+});
@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { getRootDomain } from '../src/utils/domain';
+import corpus from './fixtures/public-suffix-corpus.json';
+
+// Also run by `npm run update-psl` against each new snapshot before keeping it
+describe('getRootDomain against the hostname corpus', () => {
+  it.each(corpus as Array<[string, string]>)('%s -> %s', (hostname, expected) => {
+    expect(getRootDomain(hostname)).toBe(expected);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+async function loadModules() {
+  const storage = await import('../src/utils/storage');
+  const domainGroups = await import('../src/utils/domainGroups');
+  const sessionTracking = await import('../src/background/sessionTracking');
+  return { storage, domainGroups, sessionTracking };
+}
+
+describe('endSiteSessions', () => {
+  it('closes sessions stored under a non-canonical equivalent domain', async () => {
+    const { storage, domainGroups, sessionTracking } = await loadModules();
+
+    // Stored under youtube.com while the Google group was off, then grouped under google.com
+    await domainGroups.saveDomainGroupSettings({ custom: [], disabledDefaults: ['google'] });
+    await storage.recordLogin({ domain: 'www.youtube.com', email: 'alice@gmail.com', url: 'https://www.youtube.com/signin', timestamp: 1000 });
+    await domainGroups.saveDomainGroupSettings({ custom: [], disabledDefaults: [] });
+    await storage.recordLogin({ domain: 'accounts.google.com', email: 'bob@gmail.com', url: 'https://accounts.google.com/signin', timestamp: 2000 });
+
+    expect(await sessionTracking.endSiteSessions('www.youtube.com', 'https://www.youtube.com/logout', 'logout_url')).toBe(2);
+
+    const [alice] = await storage.getEmailMappingsForDomain('youtube.com');
+    const [bob] = await storage.getEmailMappingsForDomain('google.com');
+    expect(alice?.session?.endedAt).toBeDefined();
+    expect(bob?.session?.endedAt).toBeDefined();
+    expect(await storage.getEmailMappingsForDomain('google.com')).toHaveLength(1);
+  });
+
+  it('counts only sessions it actually closed', async () => {
+    const { storage, sessionTracking } = await loadModules();
+    await storage.recordLogin({ domain: 'example.com', email: 'alice@example.com', url: 'https://example.com/login', timestamp: 1000 });
+
+    expect(await sessionTracking.endSiteSessions('example.com', 'https://example.com/logout', 'logout_url')).toBe(1);
+    expect(await sessionTracking.endSiteSessions('example.com', 'https://example.com/logout', 'logout_url')).toBe(0);
+    expect(await storage.recordLogout('example.com', 'alice@example.com', 'https://example.com/logout', 'logout_url')).toBe(false);
+  });
+});
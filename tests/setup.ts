@@ -0,0 +1,13 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, vi } from 'vitest';
+import { installChromeStub } from './chromeStub';
+
+// Every test starts with an empty database, empty chrome.storage and fresh
+// module state (cached connections, write queues)
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  installChromeStub();
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});